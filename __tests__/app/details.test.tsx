@@ -0,0 +1,74 @@
+import { render, screen } from '@testing-library/react-native';
+import React from 'react';
+import LaunchDetailsScreen from '../../app/details';
+import LinkedLaunchScreen from '../../app/launch/[launchId]';
+import { resetApi, stubFetch } from '../helpers/stubFetch';
+
+const mockParams: { launchId?: string } = {};
+
+jest.mock('expo-router', () => ({
+  Stack: { Screen: () => null },
+  useLocalSearchParams: () => mockParams,
+  useRouter: () => ({ push: jest.fn(), back: jest.fn() }),
+}));
+
+jest.mock('expo-web-browser', () => ({
+  openBrowserAsync: jest.fn(),
+}));
+
+beforeEach(async () => {
+  await resetApi();
+  stubFetch();
+});
+
+describe('LaunchDetailsScreen', () => {
+  it('shows the launch with its rocket and launchpad', async () => {
+    mockParams.launchId = '5eb87d42ffd86e000604b384';
+    render(<LaunchDetailsScreen />);
+
+    expect(await screen.findByText('CRS-20')).toBeTruthy();
+    expect(screen.getByText('Flight #91')).toBeTruthy();
+    expect(screen.getByText('Successful')).toBeTruthy();
+    expect(screen.getByText(/20th and final Crew Resupply Mission/)).toBeTruthy();
+    expect(await screen.findByText('Falcon 9')).toBeTruthy();
+    expect((await screen.findAllByText('CCSFS SLC 40')).length).toBeGreaterThan(0);
+  });
+
+  it('explains a failed launch', async () => {
+    mockParams.launchId = '5eb87cd9ffd86e000604b32a';
+    render(<LaunchDetailsScreen />);
+
+    expect(await screen.findByText('FalconSat')).toBeTruthy();
+    expect(screen.getByText('Failed')).toBeTruthy();
+    expect(screen.getByText('⚠️ Failure')).toBeTruthy();
+    expect(screen.getByText('merlin engine failure')).toBeTruthy();
+  });
+
+  it('dates a launch without a liftoff time by its precision', async () => {
+    mockParams.launchId = '62f3b4ff0f55c50e192a4e6b';
+    render(<LaunchDetailsScreen />);
+
+    expect(await screen.findByText('Transporter-99')).toBeTruthy();
+    // The header date and the launch window countdown
+    expect(screen.getAllByText('NET Jun 2099')).toHaveLength(2);
+    expect(screen.queryByText(/12:00/)).toBeNull();
+  });
+
+  it('shows a not found state for an unknown launch', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockParams.launchId = 'missing';
+    render(<LaunchDetailsScreen />);
+
+    expect(await screen.findByText('Not found')).toBeTruthy();
+    expect(screen.getByText('Launch not found')).toBeTruthy();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('opens from a launch deep link', async () => {
+    mockParams.launchId = '5ed983aa1f30554030d45c31';
+    render(<LinkedLaunchScreen />);
+
+    expect(await screen.findByText('Crew-1')).toBeTruthy();
+  });
+});
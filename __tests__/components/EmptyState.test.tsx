@@ -0,0 +1,19 @@
+import { render, screen } from '@testing-library/react-native';
+import React from 'react';
+import EmptyState from '../../components/EmptyState';
+
+describe('EmptyState', () => {
+  it('falls back to the launch list copy', () => {
+    render(<EmptyState />);
+
+    expect(screen.getByText('No launches found')).toBeTruthy();
+    expect(screen.getByText('Try adjusting your search or check back later')).toBeTruthy();
+  });
+
+  it('shows a custom message', () => {
+    render(<EmptyState message="No favorites yet" subtitle="Tap the star on a launch to save it" />);
+
+    expect(screen.getByText('No favorites yet')).toBeTruthy();
+    expect(screen.getByText('Tap the star on a launch to save it')).toBeTruthy();
+  });
+});
@@ -0,0 +1,68 @@
+import { act, fireEvent, render, screen } from '@testing-library/react-native';
+import React from 'react';
+import { Linking } from 'react-native';
+import ErrorState from '../../components/ErrorState';
+import { ApiError } from '../../lib/errors';
+
+describe('ErrorState', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('shows a plain message without an error', () => {
+    const onRetry = jest.fn();
+    render(<ErrorState message="Launch not found" onRetry={onRetry} />);
+
+    expect(screen.getByText('Launch not found')).toBeTruthy();
+    fireEvent.press(screen.getByText('Try Again'));
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    [new ApiError({ kind: 'timeout', timeoutMs: 15000 }), 'SpaceX API is taking too long'],
+    [new ApiError({ kind: 'parse' }), 'Unexpected response'],
+    [new ApiError({ kind: 'http', status: 503 }), 'SpaceX API is having trouble'],
+    [new ApiError({ kind: 'http', status: 400 }), 'Request failed'],
+    [new ApiError({ kind: 'unknown' }), 'Something went wrong'],
+  ])('titles a %s error', (error, title) => {
+    render(<ErrorState error={error} onRetry={jest.fn()} />);
+
+    expect(screen.getByText(title)).toBeTruthy();
+    expect(screen.getByText(error.message)).toBeTruthy();
+    expect(screen.getByText('Try Again')).toBeTruthy();
+  });
+
+  it('offers the device settings when offline', () => {
+    const openSettings = jest.spyOn(Linking, 'openSettings').mockResolvedValue();
+    render(<ErrorState error={new ApiError({ kind: 'offline' })} onRetry={jest.fn()} />);
+
+    expect(screen.getByText("You're offline")).toBeTruthy();
+    fireEvent.press(screen.getByText('Open Settings'));
+    expect(openSettings).toHaveBeenCalled();
+  });
+
+  it('does not offer a retry for something that does not exist', () => {
+    render(<ErrorState error={new ApiError({ kind: 'http', status: 404 })} onRetry={jest.fn()} />);
+
+    expect(screen.getByText('Not found')).toBeTruthy();
+    expect(screen.queryByText('Try Again')).toBeNull();
+  });
+
+  it('holds the retry button until Retry-After has passed', () => {
+    jest.useFakeTimers();
+    const onRetry = jest.fn();
+    render(
+      <ErrorState error={new ApiError({ kind: 'rate-limited', retryAfterMs: 3000 })} onRetry={onRetry} />
+    );
+
+    expect(screen.getByText('Slow down a little')).toBeTruthy();
+    fireEvent.press(screen.getByText('Try Again in 3s'));
+    expect(onRetry).not.toHaveBeenCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(3000);
+    });
+    fireEvent.press(screen.getByText('Try Again'));
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+});
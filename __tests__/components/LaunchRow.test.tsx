@@ -0,0 +1,91 @@
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import LaunchRow from '../../components/LaunchRow';
+import { ThemeContext } from '../../hooks/useTheme';
+import { launchFixtures } from '../../lib/fixtures';
+import { themes } from '../../lib/theme';
+
+const [falconSat, , , , crs20] = launchFixtures;
+const upcoming = launchFixtures[launchFixtures.length - 1];
+
+describe('LaunchRow', () => {
+  it('shows the name, date and outcome', () => {
+    render(<LaunchRow launch={crs20} onPress={jest.fn()} />);
+
+    expect(screen.getByText('CRS-20')).toBeTruthy();
+    expect(screen.getByText('Mar 7, 2020')).toBeTruthy();
+    expect(screen.getByText('Successful')).toBeTruthy();
+  });
+
+  it('marks failed and upcoming launches', () => {
+    const { rerender } = render(<LaunchRow launch={falconSat} onPress={jest.fn()} />);
+    expect(screen.getByText('Failed')).toBeTruthy();
+
+    rerender(<LaunchRow launch={upcoming} onPress={jest.fn()} />);
+    expect(screen.getByText('Upcoming')).toBeTruthy();
+    // Only known to the month, so no ticking T-minus
+    expect(screen.getByText('NET Jun 2099')).toBeTruthy();
+  });
+
+  it('reports the pressed launch', () => {
+    const onPress = jest.fn();
+    render(<LaunchRow launch={crs20} onPress={onPress} />);
+
+    fireEvent.press(screen.getByText('CRS-20'));
+
+    expect(onPress).toHaveBeenCalledWith(crs20);
+  });
+
+  it('toggles a favorite without opening the launch', () => {
+    const onPress = jest.fn();
+    const onToggleFavorite = jest.fn();
+    const { rerender } = render(
+      <LaunchRow launch={crs20} onPress={onPress} onToggleFavorite={onToggleFavorite} />
+    );
+
+    fireEvent.press(screen.getByLabelText('Add to favorites'));
+    expect(onToggleFavorite).toHaveBeenCalledWith(crs20);
+    expect(onPress).not.toHaveBeenCalled();
+
+    rerender(<LaunchRow launch={crs20} onPress={onPress} isFavorite onToggleFavorite={onToggleFavorite} />);
+    expect(screen.getByLabelText('Remove from favorites')).toBeTruthy();
+  });
+
+  it('hides the star when favorites are not editable', () => {
+    render(<LaunchRow launch={crs20} onPress={jest.fn()} />);
+
+    expect(screen.queryByLabelText('Add to favorites')).toBeNull();
+  });
+
+  it('swaps the star for a checkmark while selecting', () => {
+    const onLongPress = jest.fn();
+    const { rerender } = render(
+      <LaunchRow launch={crs20} onPress={jest.fn()} onToggleFavorite={jest.fn()} onLongPress={onLongPress} />
+    );
+
+    fireEvent(screen.getByText('CRS-20'), 'longPress');
+    expect(onLongPress).toHaveBeenCalledWith(crs20);
+
+    rerender(
+      <LaunchRow launch={crs20} onPress={jest.fn()} onToggleFavorite={jest.fn()} selected onLongPress={onLongPress} />
+    );
+    expect(screen.queryByLabelText('Add to favorites')).toBeNull();
+    expect(screen.getByText('✓')).toBeTruthy();
+
+    rerender(
+      <LaunchRow launch={crs20} onPress={jest.fn()} selected={false} onLongPress={onLongPress} />
+    );
+    expect(screen.queryByText('✓')).toBeNull();
+  });
+
+  it('takes its colors from the current theme', () => {
+    render(
+      <ThemeContext.Provider value={themes.dark}>
+        <LaunchRow launch={crs20} onPress={jest.fn()} />
+      </ThemeContext.Provider>
+    );
+
+    expect(StyleSheet.flatten(screen.getByText('CRS-20').props.style).color).toBe(themes.dark.colors.text);
+  });
+});
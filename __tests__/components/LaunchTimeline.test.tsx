@@ -0,0 +1,34 @@
+import { render, screen } from '@testing-library/react-native';
+import React from 'react';
+import { Text } from 'react-native';
+import LaunchTimeline from '../../components/LaunchTimeline';
+import { EMPTY_FILTERS } from '../../lib/filters';
+import { Launch } from '../../lib/types';
+import { resetApi, stubFetch } from '../helpers/stubFetch';
+
+const renderItem = ({ item }: { item: Launch }) => <Text>{item.name}</Text>;
+
+beforeEach(async () => {
+  await resetApi();
+  stubFetch();
+});
+
+describe('LaunchTimeline', () => {
+  it('groups every matching launch under year and month headers', async () => {
+    render(<LaunchTimeline filters={EMPTY_FILTERS} query="" sort="newest" renderItem={renderItem} />);
+
+    expect(await screen.findByText('November 2020')).toBeTruthy();
+    expect(screen.getByText('2020')).toBeTruthy();
+    expect(screen.getByText('2 launches · 100% success')).toBeTruthy();
+    expect(screen.getByText('Crew-1')).toBeTruthy();
+    expect(screen.getByLabelText('Jump to next upcoming launch')).toBeTruthy();
+  });
+
+  it('applies the search and hides the jump when nothing is upcoming', async () => {
+    render(<LaunchTimeline filters={EMPTY_FILTERS} query="CRS" sort="newest" renderItem={renderItem} />);
+
+    expect(await screen.findByText('March 2020')).toBeTruthy();
+    expect(screen.queryByText('Crew-1')).toBeNull();
+    expect(screen.queryByLabelText('Jump to next upcoming launch')).toBeNull();
+  });
+});
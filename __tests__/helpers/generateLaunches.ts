@@ -0,0 +1,20 @@
+import { launchFixtures } from '../../lib/fixtures';
+import { Launch } from '../../lib/types';
+
+// `count` launches named "Mission 0"... a day apart, the last one newest
+export function generateLaunches(count: number): Launch[] {
+  const template = launchFixtures[4];
+  const start = Date.parse('2020-01-01T00:00:00.000Z');
+
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(start + i * 24 * 60 * 60 * 1000);
+    return {
+      ...template,
+      id: `generated-${i}`,
+      name: `Mission ${i}`,
+      flight_number: 1000 + i,
+      date_utc: date.toISOString(),
+      date_unix: Math.floor(date.getTime() / 1000),
+    };
+  });
+}
@@ -0,0 +1,57 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { clearCache } from '../../lib/cache';
+import { setSpaceXClient } from '../../lib/client';
+import { fixtures as defaultFixtures, SpaceXFixtures } from '../../lib/fixtures';
+import { createHttpClient } from '../../lib/httpClient';
+import { createMemoryClient } from '../../lib/memoryClient';
+import { configureRetry } from '../../lib/retry';
+
+type StubRoute = (url: string, init: RequestInit) => Response | Promise<Response> | undefined;
+
+export const jsonResponse = (body: unknown, status: number = 200, headers: Record<string, string> = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: { get: (name: string) => headers[name] ?? null },
+  json: async () => body,
+}) as unknown as Response;
+
+// Replaces global fetch with a fake SpaceX API backed by fixtures.
+// `override` can answer a request first (return undefined to fall through).
+export function stubFetch(override?: StubRoute, data: SpaceXFixtures = defaultFixtures) {
+  const backend = createMemoryClient(data);
+
+  const fetchMock = jest.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = String(input);
+    const overridden = await override?.(url, init);
+    if (overridden) return overridden;
+
+    const path = url.replace(/^https?:\/\/[^/]+/, '');
+    try {
+      const body = await backend.request(path, {
+        method: (init.method ?? 'GET') as 'GET' | 'POST',
+        body: init.body ? JSON.parse(String(init.body)) : undefined,
+      });
+      return jsonResponse(body);
+    } catch {
+      return jsonResponse({ error: 'Not Found' }, 404);
+    }
+  });
+
+  global.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+// Fresh storage, cache and HTTP client for every test; no backoff waits
+export async function resetApi() {
+  await AsyncStorage.clear();
+  await clearCache();
+  configureRetry({ retries: 0, baseDelay: 0 });
+  setSpaceXClient(createHttpClient());
+}
+
+// Request bodies sent to a given path, parsed from JSON
+export function postedBodies(fetchMock: jest.Mock, path: string) {
+  return fetchMock.mock.calls
+    .filter(([url, init]) => String(url).endsWith(path) && init?.method === 'POST')
+    .map(([, init]) => JSON.parse(String(init.body)));
+}
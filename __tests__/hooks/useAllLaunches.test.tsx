@@ -0,0 +1,58 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { useAllLaunches } from '../../hooks/useAllLaunches';
+import { ClientRequest, setSpaceXClient, SpaceXClient } from '../../lib/client';
+import { QueryBody, runQuery } from '../../lib/memoryClient';
+import { generateLaunches } from '../helpers/generateLaunches';
+import { resetApi, stubFetch } from '../helpers/stubFetch';
+
+const launches = generateLaunches(45);
+
+beforeEach(async () => {
+  await resetApi();
+});
+
+describe('useAllLaunches', () => {
+  it('ignores a search that resolves after a newer one', async () => {
+    const pending: { signal?: AbortSignal; resolve: () => void }[] = [];
+    const deferredClient: SpaceXClient = {
+      request<T>(_path: string, { body, signal }: ClientRequest = {}) {
+        return new Promise<T>(resolve => {
+          // Answers even when aborted, like a server that already sent its response
+          pending.push({ signal, resolve: () => resolve(runQuery(launches, body as QueryBody) as T) });
+        });
+      },
+    };
+    setSpaceXClient(deferredClient);
+
+    const { result, rerender } = renderHook(
+      ({ query }: { query: string }) => useAllLaunches({}, 'newest', query),
+      { initialProps: { query: 'Mission 1' } }
+    );
+    await waitFor(() => expect(pending).toHaveLength(1));
+
+    rerender({ query: 'Mission 2' });
+    await waitFor(() => expect(pending).toHaveLength(2));
+
+    expect(pending[0].signal?.aborted).toBe(true);
+    expect(pending[1].signal?.aborted).toBe(false);
+
+    // The newer search finishes first, then the stale one arrives
+    await act(async () => pending[1].resolve());
+    await act(async () => pending[0].resolve());
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.launches).toHaveLength(11);
+    expect(result.current.launches.every(launch => launch.name.startsWith('Mission 2'))).toBe(true);
+  });
+
+  it('does not fetch while disabled', async () => {
+    const fetchMock = stubFetch();
+    const { result } = renderHook(() => useAllLaunches({ rockets: [] }, 'newest', '', false));
+
+    await act(async () => {});
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.current.launches).toEqual([]);
+    expect(result.current.loading).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { useLaunch } from '../../hooks/useLaunch';
+import { setSpaceXClient, SpaceXClient } from '../../lib/client';
+import { launchFixtures } from '../../lib/fixtures';
+import { resetApi, stubFetch } from '../helpers/stubFetch';
+
+const CRS_20 = '5eb87d42ffd86e000604b384';
+const FALCON_SAT = '5eb87cd9ffd86e000604b32a';
+
+beforeEach(async () => {
+  await resetApi();
+});
+
+describe('useLaunch', () => {
+  it('loads a launch by id', async () => {
+    stubFetch();
+    const { result } = renderHook(() => useLaunch(CRS_20));
+
+    await waitFor(() => expect(result.current.launch?.name).toBe('CRS-20'));
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('ignores a launch that resolves after the id changed', async () => {
+    const pending: { path: string; resolve: () => void }[] = [];
+    const deferredClient: SpaceXClient = {
+      request<T>(path: string) {
+        return new Promise<T>(resolve => {
+          const launch = launchFixtures.find(item => path.endsWith(`/${item.id}`));
+          pending.push({ path, resolve: () => resolve(launch as T) });
+        });
+      },
+    };
+    setSpaceXClient(deferredClient);
+
+    const { result, rerender } = renderHook(
+      ({ launchId }: { launchId: string }) => useLaunch(launchId),
+      { initialProps: { launchId: FALCON_SAT } }
+    );
+    await waitFor(() => expect(pending).toHaveLength(1));
+
+    rerender({ launchId: CRS_20 });
+    await waitFor(() => expect(pending).toHaveLength(2));
+
+    // The newer launch finishes first, then the stale one arrives
+    await act(async () => pending[1].resolve());
+    await act(async () => pending[0].resolve());
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.launch?.name).toBe('CRS-20');
+  });
+});
@@ -0,0 +1,167 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { useLaunches } from '../../hooks/useLaunches';
+import { ClientRequest, setSpaceXClient, SpaceXClient } from '../../lib/client';
+import { fixtures } from '../../lib/fixtures';
+import { QueryBody, runQuery } from '../../lib/memoryClient';
+import { generateLaunches } from '../helpers/generateLaunches';
+import { resetApi, stubFetch } from '../helpers/stubFetch';
+
+const launches = generateLaunches(45);
+
+beforeEach(async () => {
+  await resetApi();
+  stubFetch(undefined, { ...fixtures, launches });
+});
+
+const renderLaunches = async () => {
+  const hook = renderHook(() => useLaunches());
+  await waitFor(() => expect(hook.result.current.loading).toBe(false));
+  return hook;
+};
+
+describe('useLaunches', () => {
+  it('loads the first page, newest first', async () => {
+    const { result } = await renderLaunches();
+
+    expect(result.current.launches).toHaveLength(20);
+    expect(result.current.launches[0].name).toBe('Mission 44');
+    expect(result.current.totalDocs).toBe(45);
+    expect(result.current.hasNextPage).toBe(true);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('appends pages until the list is exhausted', async () => {
+    const { result } = await renderLaunches();
+
+    await act(() => result.current.loadNextPage());
+    expect(result.current.launches).toHaveLength(40);
+    expect(result.current.hasNextPage).toBe(true);
+
+    await act(() => result.current.loadNextPage());
+    expect(result.current.launches).toHaveLength(45);
+    expect(result.current.launches[44].name).toBe('Mission 0');
+    expect(result.current.hasNextPage).toBe(false);
+
+    // Nothing left to load
+    await act(() => result.current.loadNextPage());
+    expect(result.current.launches).toHaveLength(45);
+  });
+
+  it('replaces the list with search results and resets back', async () => {
+    const { result } = await renderLaunches();
+    await act(() => result.current.loadNextPage());
+
+    await act(() => result.current.search('Mission 4'));
+    expect(result.current.searchQuery).toBe('Mission 4');
+    expect(result.current.launches.map(launch => launch.name)).toEqual([
+      'Mission 44',
+      'Mission 43',
+      'Mission 42',
+      'Mission 41',
+      'Mission 40',
+      'Mission 4',
+    ]);
+    expect(result.current.totalDocs).toBe(6);
+    expect(result.current.hasNextPage).toBe(false);
+
+    await act(() => result.current.reset());
+    expect(result.current.searchQuery).toBe('');
+    expect(result.current.launches).toHaveLength(20);
+    expect(result.current.totalDocs).toBe(45);
+    expect(result.current.hasNextPage).toBe(true);
+  });
+
+  it('collects the whole result set without growing the list', async () => {
+    const { result } = await renderLaunches();
+
+    let all: Awaited<ReturnType<typeof result.current.fetchAllPages>> = [];
+    await act(async () => {
+      all = await result.current.fetchAllPages();
+    });
+
+    expect(all).toHaveLength(45);
+    expect(new Set(all.map(launch => launch.id)).size).toBe(45);
+    expect(all[44].name).toBe('Mission 0');
+    expect(result.current.launches).toHaveLength(20);
+  });
+
+  it('collects a fresh result set when launches changed since the first page', async () => {
+    const { result } = await renderLaunches();
+    const [newest] = generateLaunches(46).slice(-1);
+    stubFetch(undefined, { ...fixtures, launches: [...launches, newest] });
+
+    let all: Awaited<ReturnType<typeof result.current.fetchAllPages>> = [];
+    await act(async () => {
+      all = await result.current.fetchAllPages();
+    });
+
+    expect(all).toHaveLength(46);
+    expect(new Set(all.map(launch => launch.id)).size).toBe(46);
+    expect(all[0].name).toBe('Mission 45');
+  });
+
+  it('collects only the launches matching the current search', async () => {
+    const { result } = await renderLaunches();
+    await act(() => result.current.search('Mission 4'));
+
+    let all: Awaited<ReturnType<typeof result.current.fetchAllPages>> = [];
+    await act(async () => {
+      all = await result.current.fetchAllPages();
+    });
+
+    expect(all).toHaveLength(6);
+  });
+
+  it('surfaces a failed request as an ApiError', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    stubFetch(() => {
+      throw new TypeError('Network request failed');
+    });
+
+    const { result } = await renderLaunches();
+
+    expect(result.current.launches).toHaveLength(0);
+    expect(result.current.error?.kind).toBe('offline');
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('ignores a search that resolves after a newer one', async () => {
+    const pending: { body: QueryBody; signal?: AbortSignal; resolve: () => void }[] = [];
+    const deferredClient: SpaceXClient = {
+      request<T>(_path: string, { body, signal }: ClientRequest = {}) {
+        return new Promise<T>(resolve => {
+          const queryBody = body as QueryBody;
+          // Answers even when aborted, like a server that already sent its response
+          pending.push({ body: queryBody, signal, resolve: () => resolve(runQuery(launches, queryBody) as T) });
+        });
+      },
+    };
+    setSpaceXClient(deferredClient);
+
+    const { result } = renderHook(() => useLaunches());
+    await waitFor(() => expect(pending).toHaveLength(1));
+    await act(async () => pending[0].resolve());
+
+    act(() => {
+      result.current.search('Mission 1');
+    });
+    await waitFor(() => expect(pending).toHaveLength(2));
+    act(() => {
+      result.current.search('Mission 2');
+    });
+    await waitFor(() => expect(pending).toHaveLength(3));
+
+    expect(pending[1].signal?.aborted).toBe(true);
+    expect(pending[2].signal?.aborted).toBe(false);
+
+    // The newer search finishes first, then the stale one arrives
+    await act(async () => pending[2].resolve());
+    await act(async () => pending[1].resolve());
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.searchQuery).toBe('Mission 2');
+    expect(result.current.launches.every(launch => launch.name.startsWith('Mission 2'))).toBe(true);
+    expect(result.current.totalDocs).toBe(11);
+  });
+});
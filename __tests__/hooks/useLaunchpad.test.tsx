@@ -0,0 +1,63 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { useLaunchpad } from '../../hooks/useLaunchpad';
+import { resetApi, stubFetch } from '../helpers/stubFetch';
+
+const SLC_40 = '5e9e4501f509094ba4566f84';
+
+beforeEach(async () => {
+  await resetApi();
+});
+
+const renderLaunchpad = async (id: string) => {
+  const hook = renderHook(() => useLaunchpad(id));
+  await waitFor(() => expect(hook.result.current.loading).toBe(false));
+  return hook;
+};
+
+describe('useLaunchpad', () => {
+  it('fetches the launchpad once and serves later mounts from the cache', async () => {
+    const fetchMock = stubFetch();
+
+    const first = await renderLaunchpad(SLC_40);
+    expect(first.result.current.launchpad?.name).toBe('CCSFS SLC 40');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      `https://api.spacexdata.com/v4/launchpads/${SLC_40}`,
+      expect.anything()
+    );
+    first.unmount();
+
+    const second = await renderLaunchpad(SLC_40);
+    expect(second.result.current.launchpad?.name).toBe('CCSFS SLC 40');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('goes back to the network on refetch', async () => {
+    const fetchMock = stubFetch();
+    const { result } = await renderLaunchpad(SLC_40);
+
+    await act(() => result.current.refetch());
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.current.launchpad?.name).toBe('CCSFS SLC 40');
+  });
+
+  it('reports an unknown launchpad as not found', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    stubFetch();
+    const { result } = await renderLaunchpad('missing');
+
+    expect(result.current.launchpad).toBeNull();
+    expect(result.current.error?.info).toEqual({ kind: 'http', status: 404 });
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('does nothing without an id', async () => {
+    const fetchMock = stubFetch();
+    const { result } = await renderLaunchpad('');
+
+    expect(result.current.launchpad).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,34 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { useReminders } from '../../hooks/useReminders';
+import { launchFixtures } from '../../lib/fixtures';
+import { reminders } from '../../lib/reminders';
+
+const launch = {
+  ...launchFixtures[launchFixtures.length - 1],
+  id: 'reminder-hook-launch',
+  upcoming: true,
+  date_precision: 'hour' as const,
+  date_utc: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(),
+};
+
+describe('useReminders', () => {
+  it('turns a reminder on', async () => {
+    const { result } = renderHook(() => useReminders(launch));
+
+    await act(() => result.current.toggleOffset('1h'));
+
+    expect(result.current.offsets).toEqual(['1h']);
+    expect(await reminders.getOffsets(launch.id)).toEqual(['1h']);
+  });
+
+  it('drops reminders that a sync cancelled', async () => {
+    await reminders.setOffsets(launch, ['1d', '1h']);
+    const { result } = renderHook(() => useReminders(launch));
+    await waitFor(() => expect(result.current.offsets).toEqual(['1d', '1h']));
+
+    // The launch slipped to a date known only to the month
+    await act(() => reminders.sync([{ ...launch, date_precision: 'month' }]));
+
+    await waitFor(() => expect(result.current.offsets).toEqual([]));
+  });
+});
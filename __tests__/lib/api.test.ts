@@ -0,0 +1,197 @@
+import { api } from '../../lib/api';
+import { EMPTY_FILTERS } from '../../lib/filters';
+import { configureRetry } from '../../lib/retry';
+import { jsonResponse, postedBodies, resetApi, stubFetch } from '../helpers/stubFetch';
+
+const QUERY_PATH = '/v5/launches/query';
+
+beforeEach(async () => {
+  await resetApi();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('api.fetchLaunches', () => {
+  it('browses every launch, newest first', async () => {
+    const fetchMock = stubFetch();
+
+    const response = await api.fetchLaunches(1, 5);
+
+    expect(postedBodies(fetchMock, QUERY_PATH)).toEqual([
+      { query: {}, options: { limit: 5, page: 1, sort: { date_utc: -1 } } },
+    ]);
+    expect(response.docs.map(launch => launch.name)).toEqual([
+      'Transporter-99',
+      'Crew-1',
+      'CRS-20',
+      'Iridium NEXT Mission 1',
+      'COTS 1',
+    ]);
+    expect(response.totalDocs).toBe(7);
+    expect(response.hasNextPage).toBe(true);
+    expect(response.cache).toBeNull();
+  });
+
+  it('searches by name, case-insensitively', async () => {
+    const fetchMock = stubFetch();
+
+    const response = await api.fetchLaunches(1, 20, ' crs ');
+
+    expect(postedBodies(fetchMock, QUERY_PATH)[0].query).toEqual({
+      name: { $regex: 'crs', $options: 'i' },
+    });
+    expect(response.docs.map(launch => launch.name)).toEqual(['CRS-20']);
+    expect(response.hasNextPage).toBe(false);
+  });
+
+  it('sends filters and sort with the query', async () => {
+    const fetchMock = stubFetch();
+
+    const response = await api.fetchLaunches(1, 20, '', { ...EMPTY_FILTERS, upcoming: true }, 'oldest');
+
+    expect(postedBodies(fetchMock, QUERY_PATH)[0]).toEqual({
+      query: { upcoming: true },
+      options: { limit: 20, page: 1, sort: { date_utc: 1 } },
+    });
+    expect(response.docs.map(launch => launch.name)).toEqual(['Transporter-99']);
+  });
+
+  it('orders by launchpad name rather than pad id, paging on the client', async () => {
+    const fetchMock = stubFetch();
+
+    const first = await api.fetchLaunches(1, 4, '', EMPTY_FILTERS, 'launchpad');
+    const second = await api.fetchLaunches(2, 4, '', EMPTY_FILTERS, 'launchpad');
+
+    // Both pages are cut from one download of the matching catalog
+    expect(postedBodies(fetchMock, QUERY_PATH)).toHaveLength(1);
+    expect(postedBodies(fetchMock, QUERY_PATH)[0].options).toEqual({ pagination: false, sort: { date_utc: -1 } });
+    // CCSFS SLC 40, KSC LC 39A, Kwajalein Atoll, VAFB SLC 4E; newest first on each pad
+    expect([...first.docs, ...second.docs].map(launch => launch.name)).toEqual([
+      'Transporter-99',
+      'CRS-20',
+      'COTS 1',
+      'Crew-1',
+      'RatSat',
+      'FalconSat',
+      'Iridium NEXT Mission 1',
+    ]);
+    expect(first.totalDocs).toBe(7);
+    expect(first.hasNextPage).toBe(true);
+    expect(second.hasNextPage).toBe(false);
+  });
+
+  it('serves a repeated request from the cache', async () => {
+    const fetchMock = stubFetch();
+
+    await api.fetchLaunches(1, 5, 'crew');
+    const cached = await api.fetchLaunches(1, 5, 'crew');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(cached.docs.map(launch => launch.name)).toEqual(['Crew-1']);
+    expect(cached.cache).toMatchObject({ stale: false, offline: false });
+  });
+
+  it('falls back to the full catalog when the query endpoint fails', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const fetchMock = stubFetch(url => (url.endsWith(QUERY_PATH) ? jsonResponse({}, 500) : undefined));
+
+    const response = await api.fetchLaunches(1, 2, 'sat');
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.spacexdata.com/v5/launches',
+      expect.objectContaining({ method: 'GET' })
+    );
+    // Filtered, sorted and paged locally: RatSat and FalconSat, newest first
+    expect(response.docs.map(launch => launch.name)).toEqual(['RatSat', 'FalconSat']);
+    expect(response.totalDocs).toBe(2);
+    expect(response.hasNextPage).toBe(false);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('pages the fallback catalog', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    stubFetch(url => (url.endsWith(QUERY_PATH) ? jsonResponse({}, 500) : undefined));
+
+    const response = await api.fetchLaunches(2, 3);
+
+    expect(response.docs.map(launch => launch.name)).toEqual(['Iridium NEXT Mission 1', 'COTS 1', 'RatSat']);
+    expect(response.hasNextPage).toBe(true);
+    expect(response.totalPages).toBe(3);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('does not download the catalog when offline', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const fetchMock = stubFetch(() => {
+      throw new TypeError('Network request failed');
+    });
+
+    await expect(api.fetchLaunches()).rejects.toMatchObject({ kind: 'offline' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('times out a query that never responds', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.useFakeTimers();
+    const fetchMock = stubFetch((url, init) => new Promise<Response>((_, reject) => {
+      init.signal?.addEventListener('abort', () => {
+        const error = new Error('Aborted');
+        error.name = 'AbortError';
+        reject(error);
+      });
+    }));
+
+    const request = api.fetchLaunches();
+    const assertion = expect(request).rejects.toMatchObject({
+      kind: 'timeout',
+      info: { kind: 'timeout', timeoutMs: 15000 },
+    });
+    await jest.advanceTimersByTimeAsync(15000);
+    await assertion;
+
+    // A timeout is not a reason to fall back to the whole catalog
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('retries a server error before succeeding', async () => {
+    configureRetry({ retries: 2 });
+    let failures = 1;
+    const fetchMock = stubFetch(() => (failures-- > 0 ? jsonResponse({}, 503) : undefined));
+
+    const response = await api.fetchLaunches(1, 20, 'crew');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(response.docs.map(launch => launch.name)).toEqual(['Crew-1']);
+  });
+
+  it('honours Retry-After when rate limited', async () => {
+    configureRetry({ retries: 1 });
+    let limited = true;
+    const fetchMock = stubFetch(() => {
+      if (!limited) return undefined;
+      limited = false;
+      return jsonResponse({}, 429, { 'Retry-After': '0' });
+    });
+
+    const response = await api.fetchLaunches(1, 20, 'crew');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(response.totalDocs).toBe(1);
+  });
+
+  it('tags responses with the query they answer', async () => {
+    stubFetch();
+
+    const response = await api.fetchLaunches(1, 20, 'crew', EMPTY_FILTERS, 'name');
+
+    expect(response.queryKey).toBe(`crew:${JSON.stringify(EMPTY_FILTERS)}:name`);
+  });
+});
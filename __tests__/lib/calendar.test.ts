@@ -0,0 +1,96 @@
+import { buildCalendar, getCalendarFileName, getLaunchEventUid } from '../../lib/calendar';
+import { launchFixtures, launchpadFixtures } from '../../lib/fixtures';
+import { Launch } from '../../lib/types';
+
+const STAMP = new Date('2026-01-01T12:00:00.000Z');
+const crew1 = launchFixtures[5];
+const transporter = launchFixtures[6];
+
+const eventLines = (launch: Launch) => {
+  return buildCalendar([launch], launchpadFixtures, STAMP).split('\r\n');
+};
+
+describe('buildCalendar', () => {
+  it('wraps one event per launch in a calendar', () => {
+    const ics = buildCalendar([crew1, transporter], launchpadFixtures, STAMP);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ics).toContain('DTSTAMP:20260101T120000Z');
+  });
+
+  it('times launches known to the hour, using the launch window when there is one', () => {
+    const lines = eventLines({ ...crew1, window: 0 });
+    expect(lines).toContain('DTSTART:20201116T002700Z');
+    expect(lines).toContain('DTEND:20201116T012700Z');
+    expect(lines).toContain('STATUS:CONFIRMED');
+
+    expect(eventLines({ ...crew1, window: 600 })).toContain('DTEND:20201116T003700Z');
+  });
+
+  it('falls back to all-day and month-long events when the time is not known', () => {
+    const day = eventLines({ ...crew1, date_precision: 'day' });
+    expect(day).toContain('DTSTART;VALUE=DATE:20201116');
+    expect(day).toContain('DTEND;VALUE=DATE:20201117');
+    expect(day).toContain('STATUS:TENTATIVE');
+
+    const month = eventLines(transporter);
+    expect(month).toContain('DTSTART;VALUE=DATE:20990601');
+    expect(month).toContain('DTEND;VALUE=DATE:20990701');
+
+    const quarter = eventLines({ ...transporter, date_precision: 'quarter', date_utc: '2099-10-01T00:00:00.000Z' });
+    expect(quarter).toContain('DTEND;VALUE=DATE:21000101');
+  });
+
+  it('spans the whole quarter or half a mid-period date falls in', () => {
+    const quarter = eventLines({ ...transporter, date_precision: 'quarter', date_utc: '2099-11-15T00:00:00.000Z' });
+    expect(quarter).toContain('DTSTART;VALUE=DATE:20991001');
+    expect(quarter).toContain('DTEND;VALUE=DATE:21000101');
+
+    const half = eventLines({ ...transporter, date_precision: 'half', date_utc: '2099-05-20T00:00:00.000Z' });
+    expect(half).toContain('DTSTART;VALUE=DATE:20990101');
+    expect(half).toContain('DTEND;VALUE=DATE:20990701');
+  });
+
+  it('uses the launch id for a stable UID', () => {
+    const first = buildCalendar([crew1], launchpadFixtures, STAMP);
+    const second = buildCalendar([{ ...crew1, date_utc: '2020-11-17T00:27:00.000Z' }], launchpadFixtures, new Date());
+
+    expect(getLaunchEventUid(crew1)).toBe('launch-5ed983aa1f30554030d45c31@spacex-explorer.app');
+    expect(first).toContain(`UID:${getLaunchEventUid(crew1)}`);
+    expect(second).toContain(`UID:${getLaunchEventUid(crew1)}`);
+  });
+
+  it('adds the launchpad as location and coordinates', () => {
+    const lines = eventLines(crew1);
+
+    expect(lines).toContain('LOCATION:KSC LC 39A\\, Cape Canaveral');
+    expect(lines).toContain('GEO:28.6080585;-80.6039558');
+  });
+
+  it('escapes text and folds long lines', () => {
+    const ics = buildCalendar(
+      [{ ...crew1, name: 'Crew; 1, 🚀'.repeat(10), details: 'Line one\nLine two' }],
+      [],
+      STAMP
+    );
+    const lines = ics.split('\r\n');
+
+    expect(ics).toContain('Crew\\; 1\\, 🚀');
+    expect(ics).toContain('Line one\\nLine two');
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    lines.forEach(line => {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    });
+    expect(ics).not.toContain('LOCATION');
+  });
+});
+
+describe('getCalendarFileName', () => {
+  it('slugs the mission name', () => {
+    expect(getCalendarFileName('Crew-1')).toBe('crew-1.ics');
+    expect(getCalendarFileName('Starlink 4-1 (v1.5)')).toBe('starlink-4-1-v1-5.ics');
+    expect(getCalendarFileName('🚀')).toBe('launch.ics');
+  });
+});
@@ -0,0 +1,66 @@
+import { buildComparison, ComparedLaunch, getPadDistances } from '../../lib/compare';
+import { launchFixtures, launchpadFixtures, payloadFixtures, rocketFixtures } from '../../lib/fixtures';
+import { Launch } from '../../lib/types';
+
+const compared = (launch: Launch): ComparedLaunch => ({
+  launch,
+  launchpad: launchpadFixtures.find(launchpad => launchpad.id === launch.launchpad) ?? null,
+  rocket: rocketFixtures.find(rocket => rocket.id === launch.rocket) ?? null,
+  payloads: payloadFixtures.filter(payload => launch.payloads.includes(payload.id)),
+});
+
+const [falconSat, , cots1, , crs20, crew1] = launchFixtures.map(compared);
+
+const valuesOf = (items: ComparedLaunch[], key: string) => {
+  return buildComparison(items).find(row => row.key === key);
+};
+
+describe('buildComparison', () => {
+  it('puts one value per launch in column order', () => {
+    expect(valuesOf([falconSat, crs20], 'date')?.values).toEqual(['Mar 24, 2006', 'Mar 7, 2020']);
+    expect(valuesOf([falconSat, crs20], 'outcome')?.values).toEqual(['Failed', 'Successful']);
+    expect(valuesOf([falconSat, crs20], 'rocket')?.values).toEqual(['Falcon 1', 'Falcon 9']);
+    expect(valuesOf([falconSat, crs20], 'payloadMass')?.values).toEqual(['20 kg', '1,977 kg']);
+    expect(valuesOf([falconSat, crs20], 'coreReuse')?.values).toEqual(['New booster', 'Reused (flight 2)']);
+  });
+
+  it('flags only the rows that differ', () => {
+    const rows = buildComparison([cots1, crs20]);
+
+    expect(rows.find(row => row.key === 'launchpad')).toMatchObject({ differs: false });
+    expect(rows.find(row => row.key === 'rocket')).toMatchObject({ differs: false });
+    expect(rows.find(row => row.key === 'date')).toMatchObject({ differs: true });
+  });
+
+  it('fills in a dash for missing details', () => {
+    expect(valuesOf([cots1, crs20], 'payloadMass')?.values[0]).toBe('—');
+    expect(valuesOf([{ ...crs20, launchpad: null }, crs20], 'launchpad')?.values[0]).toBe('—');
+  });
+
+  it('summarizes reuse across several cores', () => {
+    const heavy = {
+      ...crs20,
+      launch: { ...crs20.launch, cores: [crs20.launch.cores[0], crs20.launch.cores[0], { ...crs20.launch.cores[0], reused: false }] },
+    };
+
+    expect(valuesOf([heavy, crs20], 'coreReuse')?.values[0]).toBe('2 of 3 reused');
+  });
+});
+
+describe('getPadDistances', () => {
+  it('measures every pair of launches', () => {
+    const distances = getPadDistances([falconSat, crs20, crew1]);
+
+    expect(distances.map(pair => [pair.from, pair.to])).toEqual([
+      ['FalconSat', 'CRS-20'],
+      ['FalconSat', 'Crew-1'],
+      ['CRS-20', 'Crew-1'],
+    ]);
+    expect(distances[2].distance).toBeGreaterThan(4);
+    expect(distances[2].distance).toBeLessThan(7);
+  });
+
+  it('reports zero for launches from the same pad', () => {
+    expect(getPadDistances([cots1, crs20])[0].distance).toBe(0);
+  });
+});
@@ -0,0 +1,18 @@
+import { formatCountdown, formatNetDate, getCountdown } from '../../lib/countdown';
+
+describe('countdown', () => {
+  it('formats the time left until liftoff', () => {
+    const now = Date.parse('2026-03-01T00:00:00Z');
+    expect(formatCountdown(getCountdown('2026-03-03T04:12:09Z', now))).toBe('T-2d 04:12:09');
+    expect(formatCountdown(getCountdown('2026-02-28T23:54:30Z', now))).toBe('T+00:05:30');
+  });
+
+  it('labels dates that are not known to the hour', () => {
+    const date = '2026-11-15T00:00:00.000Z';
+    expect(formatNetDate(date, 'day')).toBe('NET Nov 15, 2026');
+    expect(formatNetDate(date, 'month')).toBe('NET Nov 2026');
+    expect(formatNetDate(date, 'quarter')).toBe('NET Q4 2026');
+    expect(formatNetDate(date, 'half')).toBe('NET H2 2026');
+    expect(formatNetDate(date, 'year')).toBe('NET 2026');
+  });
+});
@@ -0,0 +1,24 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { favoritesStore } from '../../lib/favorites';
+import { launchFixtures } from '../../lib/fixtures';
+
+const [falconSat, ratSat, cots1] = launchFixtures;
+
+describe('favoritesStore', () => {
+  it('keeps changes made while storage was still loading', async () => {
+    await AsyncStorage.setItem('spacex-pref:favorites', JSON.stringify({
+      [falconSat.id]: falconSat,
+      [ratSat.id]: ratSat,
+    }));
+
+    const loading = favoritesStore.load();
+    favoritesStore.remove(falconSat.id);
+    favoritesStore.add(cots1);
+    await loading;
+
+    expect(Object.keys(favoritesStore.getSnapshot()).sort()).toEqual([ratSat.id, cots1.id].sort());
+    await Promise.resolve();
+    const stored = JSON.parse((await AsyncStorage.getItem('spacex-pref:favorites')) ?? '{}');
+    expect(Object.keys(stored).sort()).toEqual([ratSat.id, cots1.id].sort());
+  });
+});
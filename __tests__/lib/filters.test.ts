@@ -0,0 +1,36 @@
+import { EMPTY_FILTERS, filtersFromParams, filtersToParams } from '../../lib/filters';
+
+describe('filter route params', () => {
+  it('round-trips filters through params', () => {
+    const filters = {
+      ...EMPTY_FILTERS,
+      outcomes: ['success' as const, 'failure' as const],
+      upcoming: false,
+      dateFrom: '2020-01-01',
+      dateTo: '2020-12-31',
+      launchpads: ['pad-1', 'pad-2'],
+    };
+
+    const params = filtersToParams(filters);
+
+    expect(params).toEqual({
+      outcomes: 'success,failure',
+      upcoming: 'false',
+      dateFrom: '2020-01-01',
+      dateTo: '2020-12-31',
+      launchpads: 'pad-1,pad-2',
+    });
+    expect(filtersFromParams(params)).toEqual(filters);
+  });
+
+  it('returns null when no filter is present', () => {
+    expect(filtersFromParams({})).toBeNull();
+  });
+
+  it('drops values it does not understand', () => {
+    expect(filtersFromParams({ outcomes: 'success,exploded', dateFrom: '2020-02-31', upcoming: 'maybe' })).toEqual({
+      ...EMPTY_FILTERS,
+      outcomes: ['success'],
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { calculateBearing, calculateDistance, clusterByRegion, formatBearing, formatDistance } from '../../lib/geo';
+
+describe('calculateDistance', () => {
+  it('returns zero for the same point', () => {
+    expect(calculateDistance(28.5618571, -80.577366, 28.5618571, -80.577366)).toBe(0);
+  });
+
+  it('measures great-circle distance in kilometers, rounded to 2 decimals', () => {
+    // Cape Canaveral SLC 40 to Vandenberg SLC 4E
+    const distance = calculateDistance(28.5618571, -80.577366, 34.632093, -120.610829);
+    expect(distance).toBeGreaterThan(3800);
+    expect(distance).toBeLessThan(3850);
+    expect(Math.round(distance * 100) / 100).toBe(distance);
+  });
+
+  it('is symmetric', () => {
+    expect(calculateDistance(51.5, -0.12, 40.7, -74)).toBe(calculateDistance(40.7, -74, 51.5, -0.12));
+  });
+});
+
+describe('formatDistance', () => {
+  it('formats kilometers', () => {
+    expect(formatDistance(0.25, 'km')).toBe('250m');
+    expect(formatDistance(12.34, 'km')).toBe('12.34km');
+    expect(formatDistance(3772.6, 'km')).toBe('3773km');
+  });
+
+  it('formats miles', () => {
+    expect(formatDistance(0.1, 'mi')).toBe('328ft');
+    expect(formatDistance(16.09344, 'mi')).toBe('10mi');
+    expect(formatDistance(3772.6, 'mi')).toBe('2344mi');
+  });
+
+  it('defaults to the app-wide unit', () => {
+    expect(formatDistance(12.34)).toBe('12.34km');
+  });
+});
+
+describe('bearing', () => {
+  it('points due east and north', () => {
+    expect(Math.round(calculateBearing(0, 0, 0, 10))).toBe(90);
+    expect(Math.round(calculateBearing(0, 0, 10, 0))).toBe(0);
+  });
+
+  it('formats a compass point with degrees', () => {
+    expect(formatBearing(47)).toBe('NE (47°)');
+  });
+});
+
+describe('clusterByRegion', () => {
+  const region = { latitude: 0, longitude: 0, latitudeDelta: 80, longitudeDelta: 80 };
+
+  it('groups nearby points and keeps distant ones apart', () => {
+    const clusters = clusterByRegion(
+      [
+        { id: 'a', latitude: 1, longitude: 1 },
+        { id: 'b', latitude: 1.5, longitude: 1.5 },
+        { id: 'c', latitude: -30, longitude: 30 },
+      ],
+      region
+    );
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters.map(cluster => cluster.items.length).sort()).toEqual([1, 2]);
+  });
+});
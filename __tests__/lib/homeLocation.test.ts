@@ -0,0 +1,15 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { homeLocationStore } from '../../lib/homeLocation';
+
+describe('homeLocationStore', () => {
+  it('keeps a location cleared while storage was still loading', async () => {
+    await AsyncStorage.setItem('spacex-pref:homeLocation', JSON.stringify({ latitude: 28.5, longitude: -80.6 }));
+
+    const loading = homeLocationStore.load();
+    homeLocationStore.clear();
+    await loading;
+
+    expect(homeLocationStore.getSnapshot()).toBeNull();
+    expect(await AsyncStorage.getItem('spacex-pref:homeLocation')).toBe('null');
+  });
+});
@@ -0,0 +1,47 @@
+import { Image } from 'expo-image';
+import { launchFixtures } from '../../lib/fixtures';
+import { getLaunchImageSource, getLaunchImageUrl, getLaunchPhotos, PLACEHOLDER_IMAGE, prefetchLaunchImages } from '../../lib/images';
+import { Launch } from '../../lib/types';
+
+const withLinks = (links: Partial<Launch['links']>): Launch => ({
+  ...launchFixtures[4],
+  links: { ...launchFixtures[4].links, ...links },
+});
+
+const photos = { small: [], original: ['https://example.com/1.jpg', 'https://example.com/2.jpg'] };
+const patch = { small: 'https://example.com/patch-small.png', large: 'https://example.com/patch-large.png' };
+
+describe('launch images', () => {
+  it('prefers the first Flickr photo, then the mission patch', () => {
+    expect(getLaunchImageUrl(withLinks({ flickr: photos, patch }))).toBe('https://example.com/1.jpg');
+    expect(getLaunchImageUrl(withLinks({ patch }))).toBe('https://example.com/patch-large.png');
+    expect(getLaunchImageUrl(withLinks({ patch: { small: patch.small, large: null } }))).toBe(patch.small);
+  });
+
+  it('falls back to the bundled placeholder', () => {
+    expect(getLaunchImageSource(withLinks({}))).toBe(PLACEHOLDER_IMAGE);
+    expect(getLaunchImageSource(withLinks({ patch }))).toEqual({ uri: patch.large });
+  });
+
+  it('lists every Flickr original for the gallery', () => {
+    expect(getLaunchPhotos(withLinks({ flickr: photos }))).toEqual(photos.original);
+    expect(getLaunchPhotos(withLinks({}))).toEqual([]);
+  });
+
+  it('prefetches one image per launch into the disk cache', () => {
+    const prefetch = jest.spyOn(Image, 'prefetch').mockResolvedValue(true);
+
+    prefetchLaunchImages([withLinks({ flickr: photos }), withLinks({ patch }), withLinks({})]);
+
+    expect(prefetch).toHaveBeenCalledWith(['https://example.com/1.jpg', patch.large], 'memory-disk');
+  });
+
+  it('skips prefetching when there is nothing to load', () => {
+    const prefetch = jest.spyOn(Image, 'prefetch').mockResolvedValue(true);
+    prefetch.mockClear();
+
+    prefetchLaunchImages([withLinks({})]);
+
+    expect(prefetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+import { launchFixtures, launchpadFixtures, rocketFixtures } from '../../lib/fixtures';
+import { getExportFileName, toCsv, toExportRows, toJson } from '../../lib/launchExport';
+
+const [falconSat, , , , crs20] = launchFixtures;
+const upcoming = launchFixtures[launchFixtures.length - 1];
+
+describe('toExportRows', () => {
+  it('resolves launchpad and rocket names', () => {
+    const [row] = toExportRows([crs20], launchpadFixtures, rocketFixtures);
+
+    expect(row).toMatchObject({
+      name: 'CRS-20',
+      outcome: 'success',
+      launchpad: 'CCSFS SLC 40',
+      launchpad_locality: 'Cape Canaveral',
+      rocket: 'Falcon 9',
+      cores_reused: 1,
+      payload_count: 1,
+    });
+  });
+
+  it('keeps the ids when names are unknown', () => {
+    const [row] = toExportRows([falconSat], [], []);
+
+    expect(row).toMatchObject({ launchpad: null, launchpad_id: falconSat.launchpad, rocket: null, outcome: 'failure' });
+    expect(toExportRows([upcoming], [], [])[0].outcome).toBe('upcoming');
+  });
+});
+
+describe('toCsv', () => {
+  it('writes a header and one line per launch', () => {
+    const lines = toCsv(toExportRows([falconSat, crs20], launchpadFixtures, rocketFixtures)).trim().split('\r\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0].startsWith('id,flight_number,name,date_utc')).toBe(true);
+    expect(lines[2]).toContain(',CRS-20,2020-03-07T04:50:31.000Z,hour,success,CCSFS SLC 40,Cape Canaveral,');
+  });
+
+  it('quotes commas, quotes and newlines, and defuses formulas', () => {
+    const [row] = toExportRows([crs20], [], []);
+    const csv = toCsv([{ ...row, name: '=HYPERLINK("x")', details: 'One, "two"\nthree' }]);
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(csv).toContain('"One, ""two""\nthree"');
+  });
+});
+
+describe('toJson', () => {
+  it('keeps numbers and nulls typed', () => {
+    const parsed = JSON.parse(toJson(toExportRows([falconSat], [], [])));
+
+    expect(parsed[0].flight_number).toBe(1);
+    expect(parsed[0].launchpad).toBeNull();
+  });
+});
+
+describe('getExportFileName', () => {
+  it('dates the file', () => {
+    expect(getExportFileName('csv', new Date('2024-05-01T10:00:00.000Z'))).toBe('spacex-launches-2024-05-01.csv');
+  });
+});
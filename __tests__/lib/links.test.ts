@@ -0,0 +1,53 @@
+// A standalone build with the scheme from app.json
+jest.mock('expo-constants', () => ({
+  __esModule: true,
+  ExecutionEnvironment: { Bare: 'bare', Standalone: 'standalone', StoreClient: 'storeClient' },
+  default: { executionEnvironment: 'standalone', expoConfig: { scheme: 'spacex' } },
+}));
+
+import { createLaunchpadUrl, createLaunchUrl, deepLinkPath, launchPath, launchpadPath, parseDeepLink } from '../../lib/links';
+
+describe('deep links', () => {
+  it('builds route paths', () => {
+    expect(launchPath('5eb87d42ffd86e000604b384')).toBe('/launch/5eb87d42ffd86e000604b384');
+    expect(launchpadPath('5e9e4501f509094ba4566f84')).toBe('/launchpad/5e9e4501f509094ba4566f84');
+    expect(deepLinkPath({ type: 'launchpad', id: 'abc' })).toBe('/launchpad/abc');
+  });
+
+  it('parses app scheme links', () => {
+    expect(parseDeepLink('spacex://launch/5eb87d42ffd86e000604b384')).toEqual({
+      type: 'launch',
+      id: '5eb87d42ffd86e000604b384',
+    });
+    expect(parseDeepLink('spacex://launchpad/5e9e4501f509094ba4566f84')).toEqual({
+      type: 'launchpad',
+      id: '5e9e4501f509094ba4566f84',
+    });
+  });
+
+  it('parses web and development links', () => {
+    expect(parseDeepLink('https://spacex.example.com/launch/abc')).toEqual({ type: 'launch', id: 'abc' });
+    expect(parseDeepLink('exp://192.168.1.10:8081/--/launchpad/abc')).toEqual({ type: 'launchpad', id: 'abc' });
+  });
+
+  it('ignores links to anything else', () => {
+    expect(parseDeepLink(null)).toBeNull();
+    expect(parseDeepLink('spacex://')).toBeNull();
+    expect(parseDeepLink('spacex://launch')).toBeNull();
+    expect(parseDeepLink('spacex://rocket/abc')).toBeNull();
+    expect(parseDeepLink('https://spacex.example.com/launch/abc/extra')).toBeNull();
+  });
+
+  it('rejects ids with malformed escapes instead of throwing', () => {
+    expect(parseDeepLink('spacex://launch/%E0')).toBeNull();
+    expect(parseDeepLink('https://spacex.example.com/launchpad/%ZZ')).toBeNull();
+  });
+
+  it('creates shareable launch URLs that parse back', () => {
+    const url = createLaunchUrl('5eb87d42ffd86e000604b384');
+
+    expect(url).toBe('spacex://launch/5eb87d42ffd86e000604b384');
+    expect(parseDeepLink(url)).toEqual({ type: 'launch', id: '5eb87d42ffd86e000604b384' });
+    expect(createLaunchpadUrl('5e9e4501f509094ba4566f84')).toBe('spacex://launchpad/5e9e4501f509094ba4566f84');
+  });
+});
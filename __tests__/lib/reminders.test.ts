@@ -0,0 +1,51 @@
+import * as Notifications from 'expo-notifications';
+import { launchFixtures } from '../../lib/fixtures';
+import { reminders } from '../../lib/reminders';
+
+const schedule = Notifications.scheduleNotificationAsync as jest.Mock;
+const cancel = Notifications.cancelScheduledNotificationAsync as jest.Mock;
+
+const launch = {
+  ...launchFixtures[launchFixtures.length - 1],
+  upcoming: true,
+  date_precision: 'hour' as const,
+  date_utc: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(),
+};
+
+describe('reminders', () => {
+  beforeEach(() => {
+    let next = 0;
+    schedule.mockReset().mockImplementation(async () => `notification-${++next}`);
+    cancel.mockClear();
+  });
+
+  it('runs overlapping updates one at a time', async () => {
+    const slipped = { ...launch, date_utc: new Date(Date.parse(launch.date_utc) + 60 * 60 * 1000).toISOString() };
+
+    await Promise.all([
+      reminders.setOffsets(launch, ['1d', '1h']),
+      reminders.sync([slipped]),
+      reminders.setOffsets(slipped, ['10m']),
+    ]);
+
+    // Every notification but the last one scheduled was cancelled again
+    const scheduledIds = await Promise.all(schedule.mock.results.map(result => result.value));
+    const cancelledIds = cancel.mock.calls.map(([id]) => id);
+    expect(scheduledIds).toHaveLength(5);
+    expect(cancelledIds.sort()).toEqual(scheduledIds.slice(0, -1).sort());
+    expect(await reminders.getOffsets(launch.id)).toEqual(['10m']);
+  });
+
+  it('does not schedule reminders for a launch without a liftoff time', async () => {
+    const monthOnly = { ...launch, id: 'month-only', date_precision: 'month' as const };
+
+    await reminders.setOffsets(monthOnly, ['1d']);
+
+    expect(schedule).not.toHaveBeenCalled();
+    expect(await reminders.getOffsets(monthOnly.id)).toEqual([]);
+  });
+
+  it('reports notification permission', async () => {
+    expect(await reminders.requestPermission()).toBe(true);
+  });
+});
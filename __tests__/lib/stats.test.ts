@@ -0,0 +1,69 @@
+import { launchFixtures } from '../../lib/fixtures';
+import { computeLaunchStats, countOutcomes } from '../../lib/stats';
+import { Launch } from '../../lib/types';
+
+const SLC_40 = '5e9e4501f509094ba4566f84';
+const FALCON_9 = '5e9d0d95eda69973a809d1ec';
+
+describe('computeLaunchStats', () => {
+  const stats = computeLaunchStats(launchFixtures);
+
+  it('counts outcomes', () => {
+    expect(stats).toMatchObject({ total: 7, successes: 5, failures: 1, upcoming: 1, unknown: 0 });
+    expect(stats.successRate).toBeCloseTo(5 / 6);
+  });
+
+  it('buckets launches per year, filling the gaps', () => {
+    expect(stats.byYear[0]).toMatchObject({ year: 2006, total: 1, failures: 1, successRate: 0 });
+    expect(stats.byYear[stats.byYear.length - 1]).toMatchObject({ year: 2099, total: 1, upcoming: 1, successRate: null });
+    expect(stats.byYear).toHaveLength(2099 - 2006 + 1);
+    expect(stats.byYear.find(year => year.year === 2007)).toMatchObject({ total: 0, successRate: null });
+    expect(stats.byYear.find(year => year.year === 2020)).toMatchObject({ total: 2, successes: 2, successRate: 1 });
+  });
+
+  it('ranks launchpads and rockets by launch count', () => {
+    expect(stats.byLaunchpad[0]).toEqual({ id: SLC_40, total: 3, successes: 2 });
+    expect(stats.byRocket[0]).toEqual({ id: FALCON_9, total: 5, successes: 4 });
+    expect(stats.byRocket[1].total).toBe(2);
+  });
+
+  it('counts booster flights and reuse', () => {
+    const flown = (flight: number, core: string): Launch => ({
+      ...launchFixtures[4],
+      cores: [{ ...launchFixtures[4].cores[0], core, flight, reused: flight > 1 }],
+    });
+
+    const reuse = computeLaunchStats([flown(1, 'B1'), flown(2, 'B1'), flown(3, 'B1'), flown(1, 'B2')]);
+
+    expect(reuse.boosterFlights).toEqual([
+      { flight: 1, count: 2 },
+      { flight: 2, count: 1 },
+      { flight: 3, count: 1 },
+    ]);
+    expect(reuse.reusedLaunches).toBe(2);
+    expect(reuse.mostFlownBooster).toEqual({ core: 'B1', flights: 3 });
+  });
+
+  it('handles an empty catalog', () => {
+    const empty = computeLaunchStats([]);
+
+    expect(empty.total).toBe(0);
+    expect(empty.successRate).toBeNull();
+    expect(empty.byYear).toEqual([]);
+    expect(empty.mostFlownBooster).toBeNull();
+  });
+});
+
+describe('countOutcomes', () => {
+  it('tallies a slice of launches', () => {
+    expect(countOutcomes(launchFixtures.slice(0, 2))).toEqual({
+      total: 2,
+      successes: 1,
+      failures: 1,
+      upcoming: 0,
+      unknown: 0,
+      successRate: 0.5,
+    });
+    expect(countOutcomes([]).successRate).toBeNull();
+  });
+});
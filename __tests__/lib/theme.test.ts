@@ -0,0 +1,57 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { resolveColorScheme, themes, themeStore } from '../../lib/theme';
+
+describe('resolveColorScheme', () => {
+  it('uses an explicit mode regardless of the system setting', () => {
+    expect(resolveColorScheme('light', 'dark')).toBe('light');
+    expect(resolveColorScheme('dark', 'light')).toBe('dark');
+  });
+
+  it('follows the system setting and falls back to light when it is unknown', () => {
+    expect(resolveColorScheme('system', 'dark')).toBe('dark');
+    expect(resolveColorScheme('system', 'light')).toBe('light');
+    expect(resolveColorScheme('system', null)).toBe('light');
+    expect(resolveColorScheme('system', undefined)).toBe('light');
+  });
+});
+
+describe('themes', () => {
+  it('only styles the Google map in dark mode', () => {
+    expect(themes.light.mapStyle).toEqual([]);
+    expect(themes.dark.mapStyle.length).toBeGreaterThan(0);
+  });
+});
+
+describe('themeStore', () => {
+  it('restores the saved mode and persists changes', async () => {
+    await AsyncStorage.setItem('spacex-pref:themeMode', JSON.stringify('dark'));
+    const listener = jest.fn();
+    const unsubscribe = themeStore.subscribe(listener);
+
+    expect(themeStore.getSnapshot()).toBe('system');
+    await themeStore.load();
+    expect(themeStore.getSnapshot()).toBe('dark');
+
+    themeStore.set('light');
+    expect(themeStore.getSnapshot()).toBe('light');
+    expect(listener).toHaveBeenCalledTimes(2);
+    await Promise.resolve();
+    expect(await AsyncStorage.getItem('spacex-pref:themeMode')).toBe(JSON.stringify('light'));
+
+    unsubscribe();
+  });
+
+  it('keeps a mode chosen while storage was still loading', async () => {
+    jest.resetModules();
+    const { themeStore: freshStore } = require('../../lib/theme') as typeof import('../../lib/theme');
+    const storage = require('@react-native-async-storage/async-storage') as typeof AsyncStorage;
+    await storage.setItem('spacex-pref:themeMode', JSON.stringify('dark'));
+
+    const loading = freshStore.load();
+    freshStore.set('light');
+    await loading;
+
+    expect(freshStore.getSnapshot()).toBe('light');
+    expect(await storage.getItem('spacex-pref:themeMode')).toBe(JSON.stringify('light'));
+  });
+});
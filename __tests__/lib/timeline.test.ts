@@ -0,0 +1,83 @@
+import { launchFixtures } from '../../lib/fixtures';
+import {
+  buildTimelineSections,
+  createTimelineItemLayout,
+  findNextUpcoming,
+  getTimelineSort,
+  getTimelineYears,
+} from '../../lib/timeline';
+
+const newestFirst = [...launchFixtures].reverse();
+
+describe('buildTimelineSections', () => {
+  const sections = buildTimelineSections(newestFirst);
+
+  it('groups launches by month in list order', () => {
+    expect(sections.map(section => section.title)).toEqual([
+      'June 2099',
+      'November 2020',
+      'March 2020',
+      'January 2017',
+      'December 2010',
+      'September 2008',
+      'March 2006',
+    ]);
+  });
+
+  it('counts outcomes per month and per year', () => {
+    const [, november, march] = sections;
+
+    expect(november.stats).toMatchObject({ total: 1, successes: 1, successRate: 1 });
+    expect(november.yearStats).toMatchObject({ total: 2, successes: 2 });
+    expect(march.yearStats).toBeNull();
+    expect(sections[0].stats).toMatchObject({ total: 1, upcoming: 1, successRate: null });
+    expect(sections[sections.length - 1].stats).toMatchObject({ failures: 1, successRate: 0 });
+  });
+
+  it('points each year at the section that opens it', () => {
+    expect(getTimelineYears(sections)).toEqual([
+      { year: 2099, sectionIndex: 0 },
+      { year: 2020, sectionIndex: 1 },
+      { year: 2017, sectionIndex: 3 },
+      { year: 2010, sectionIndex: 4 },
+      { year: 2008, sectionIndex: 5 },
+      { year: 2006, sectionIndex: 6 },
+    ]);
+  });
+});
+
+describe('findNextUpcoming', () => {
+  it('finds the soonest upcoming launch whichever way the list runs', () => {
+    const soon = { ...launchFixtures[6], id: 'soon', date_utc: '2098-01-01T00:00:00.000Z' };
+    const later = launchFixtures[6];
+
+    expect(findNextUpcoming(buildTimelineSections([later, soon, ...newestFirst.slice(1)])))
+      .toEqual({ sectionIndex: 1, itemIndex: 0 });
+    expect(findNextUpcoming(buildTimelineSections([...launchFixtures.slice(0, 6), soon, later])))
+      .toEqual({ sectionIndex: 6, itemIndex: 0 });
+  });
+
+  it('returns null when nothing is upcoming', () => {
+    expect(findNextUpcoming(buildTimelineSections(launchFixtures.slice(0, 6)))).toBeNull();
+  });
+});
+
+describe('createTimelineItemLayout', () => {
+  it('accounts for headers, year banners and footers', () => {
+    const sections = buildTimelineSections(newestFirst.slice(1, 3));
+    const getItemLayout = createTimelineItemLayout(sections, { row: 92, header: 44, yearHeader: 40 });
+
+    // [Nov 2020 header + year banner, Crew-1, footer, Mar 2020 header, CRS-20, footer]
+    expect(getItemLayout(null, 0)).toEqual({ length: 84, offset: 0, index: 0 });
+    expect(getItemLayout(null, 1)).toEqual({ length: 92, offset: 84, index: 1 });
+    expect(getItemLayout(null, 3)).toEqual({ length: 44, offset: 176, index: 3 });
+    expect(getItemLayout(null, 4)).toEqual({ length: 92, offset: 220, index: 4 });
+  });
+});
+
+describe('getTimelineSort', () => {
+  it('keeps the date direction and falls back to newest first', () => {
+    expect(getTimelineSort('oldest')).toBe('oldest');
+    expect(getTimelineSort('name')).toBe('newest');
+  });
+});
@@ -0,0 +1,69 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Tabs } from 'expo-router';
+import SettingsButton from '../../components/SettingsButton';
+import { useTheme } from '../../hooks/useTheme';
+
+export default function TabLayout() {
+  const { colors } = useTheme();
+
+  return (
+    <Tabs
+      screenOptions={{
+        headerShown: true,
+        headerStyle: {
+          backgroundColor: colors.chrome,
+        },
+        headerTintColor: colors.chromeText,
+        headerTitleStyle: {
+          fontWeight: 'bold',
+        },
+        headerRight: () => <SettingsButton />,
+        tabBarStyle: {
+          backgroundColor: colors.chrome,
+          borderTopColor: colors.chromeBorder,
+        },
+        tabBarActiveTintColor: colors.chromeText,
+        tabBarInactiveTintColor: colors.chromeMuted,
+      }}
+    >
+      <Tabs.Screen
+        name="index"
+        options={{
+          title: 'SpaceX Launches',
+          tabBarLabel: 'Launches',
+          tabBarIcon: ({ color, size }) => <Ionicons name="rocket-outline" color={color} size={size} />,
+        }}
+      />
+      <Tabs.Screen
+        name="map"
+        options={{
+          title: 'Launchpads Map',
+          tabBarLabel: 'Map',
+          tabBarIcon: ({ color, size }) => <Ionicons name="map-outline" color={color} size={size} />,
+        }}
+      />
+      <Tabs.Screen
+        name="nearby"
+        options={{
+          title: 'Near Me',
+          tabBarIcon: ({ color, size }) => <Ionicons name="navigate-outline" color={color} size={size} />,
+        }}
+      />
+      <Tabs.Screen
+        name="stats"
+        options={{
+          title: 'Launch Stats',
+          tabBarLabel: 'Stats',
+          tabBarIcon: ({ color, size }) => <Ionicons name="stats-chart-outline" color={color} size={size} />,
+        }}
+      />
+      <Tabs.Screen
+        name="favorites"
+        options={{
+          title: 'Favorites',
+          tabBarIcon: ({ color, size }) => <Ionicons name="star-outline" color={color} size={size} />,
+        }}
+      />
+    </Tabs>
+  );
+}
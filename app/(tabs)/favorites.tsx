@@ -0,0 +1,115 @@
+import { useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  FlatList,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import ReanimatedSwipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
+import EmptyState from '../../components/EmptyState';
+import LaunchRow from '../../components/LaunchRow';
+import { useFavorites } from '../../hooks/useFavorites';
+import { seedLaunch } from '../../hooks/useLaunch';
+import { useThemedStyles } from '../../hooks/useTheme';
+import { api } from '../../lib/api';
+import { logger } from '../../lib/logger';
+import { ThemeColors } from '../../lib/theme';
+import { Launch } from '../../lib/types';
+
+export default function FavoritesScreen() {
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { favorites, removeFavorite, toggleFavorite, updateFavorites } = useFavorites();
+  const [refreshing, setRefreshing] = useState(false);
+
+  const handleLaunchPress = useCallback((launch: Launch) => {
+    seedLaunch(launch);
+    router.push({
+      pathname: '/details',
+      params: { launchId: launch.id },
+    });
+  }, [router]);
+
+  // Pull the latest copy of each saved launch; keeps the stored ones when offline
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    const results = await Promise.allSettled(favorites.map(launch => api.fetchLaunch(launch.id)));
+    const refreshed = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    if (refreshed.length < favorites.length) {
+      logger.warn('Some favorites could not be refreshed', favorites.length - refreshed.length);
+    }
+    updateFavorites(refreshed);
+    setRefreshing(false);
+  }, [favorites, updateFavorites]);
+
+  const renderRightActions = useCallback((launch: Launch) => (
+    <TouchableOpacity
+      style={styles.removeAction}
+      onPress={() => removeFavorite(launch.id)}
+      accessibilityLabel={`Remove ${launch.name} from favorites`}
+    >
+      <Text style={styles.removeActionText}>Remove</Text>
+    </TouchableOpacity>
+  ), [removeFavorite, styles]);
+
+  const renderItem = useCallback(({ item }: { item: Launch }) => (
+    <ReanimatedSwipeable
+      friction={2}
+      rightThreshold={40}
+      renderRightActions={() => renderRightActions(item)}
+    >
+      <LaunchRow
+        launch={item}
+        onPress={handleLaunchPress}
+        isFavorite
+        onToggleFavorite={toggleFavorite}
+      />
+    </ReanimatedSwipeable>
+  ), [handleLaunchPress, renderRightActions, toggleFavorite]);
+
+  const keyExtractor = useCallback((item: Launch) => item.id, []);
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={favorites}
+        renderItem={renderItem}
+        keyExtractor={keyExtractor}
+        contentContainerStyle={favorites.length === 0 && styles.emptyContent}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
+        }
+        ListEmptyComponent={
+          <EmptyState
+            message="No favorite launches yet"
+            subtitle="Tap the star on a launch to add it to your watchlist"
+          />
+        }
+      />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  emptyContent: {
+    flexGrow: 1,
+  },
+  removeAction: {
+    backgroundColor: colors.failure,
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 96,
+  },
+  removeActionText: {
+    color: colors.onPrimary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
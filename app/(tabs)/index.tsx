@@ -0,0 +1,599 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Tabs, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  BackHandler,
+  FlatList,
+  Keyboard,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import EmptyState from '../../components/EmptyState';
+import ErrorState from '../../components/ErrorState';
+import FilterChips from '../../components/FilterChips';
+import FilterSheet from '../../components/FilterSheet';
+import LaunchRow from '../../components/LaunchRow';
+import LaunchTimeline from '../../components/LaunchTimeline';
+import LoadingState from '../../components/LoadingState';
+import SettingsButton from '../../components/SettingsButton';
+import SortSelector from '../../components/SortSelector';
+import { useCalendarExport } from '../../hooks/useCalendarExport';
+import { useFavorites } from '../../hooks/useFavorites';
+import { seedLaunch } from '../../hooks/useLaunch';
+import { useLaunchExport } from '../../hooks/useLaunchExport';
+import { useLaunches } from '../../hooks/useLaunches';
+import { useLaunchpads } from '../../hooks/useLaunchpads';
+import { useRockets } from '../../hooks/useRockets';
+import { useTheme, useThemedStyles } from '../../hooks/useTheme';
+import { MAX_COMPARED_LAUNCHES } from '../../lib/compare';
+import {
+  CLEARED_FILTER_PARAMS,
+  filtersFromParams,
+  hasActiveFilters,
+  LaunchFilterParams,
+} from '../../lib/filters';
+import { preferences } from '../../lib/preferences';
+import { ThemeColors } from '../../lib/theme';
+import { Launch, LaunchFilters } from '../../lib/types';
+
+type ViewMode = 'list' | 'timeline';
+
+const VIEW_MODE_PREFERENCE_KEY = 'launchView';
+
+const VIEW_OPTIONS: { value: ViewMode; label: string }[] = [
+  { value: 'list', label: 'List' },
+  { value: 'timeline', label: 'Timeline' },
+];
+
+export default function LaunchListScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const filterParams = useLocalSearchParams<LaunchFilterParams>();
+  const [searchText, setSearchText] = useState('');
+  const [filterSheetVisible, setFilterSheetVisible] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  
+  const {
+    launches,
+    loading,
+    error,
+    hasNextPage,
+    totalDocs,
+    refreshing,
+    offlineSince,
+    searchQuery,
+    filters,
+    sort,
+    loadNextPage,
+    fetchAllPages,
+    refresh,
+    search,
+    reset,
+    applyFilters,
+    changeSort,
+  } = useLaunches();
+  const { launchpads } = useLaunchpads();
+  const { rockets } = useRockets();
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const { exporting: exportingCalendar, exportUpcoming } = useCalendarExport();
+  const { exporting: exportingData, exportLaunches } = useLaunchExport();
+  const filtersActive = hasActiveFilters(filters);
+  const selecting = selectedIds.length > 0;
+
+  // Opened with filters in the route (e.g. tapping through from the stats screen)
+  const filterParamsKey = JSON.stringify(filtersFromParams(filterParams));
+  useEffect(() => {
+    const linkedFilters: ReturnType<typeof filtersFromParams> = JSON.parse(filterParamsKey);
+    if (!linkedFilters) return;
+
+    setSearchText('');
+    applyFilters(linkedFilters);
+    // Clear them so the same link works again after the user edits the filters
+    router.setParams(CLEARED_FILTER_PARAMS);
+  }, [filterParamsKey, applyFilters, router]);
+
+ 
+  useEffect(() => {
+  
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+
+    searchTimeoutRef.current = setTimeout(() => {
+      if (searchText.trim()) {
+        search(searchText.trim());
+      } else {
+        reset();
+      }
+    }, 500);
+
+    return () => {
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current);
+      }
+    };
+  }, [searchText, search, reset]);
+
+  useEffect(() => {
+    preferences.get<ViewMode>(VIEW_MODE_PREFERENCE_KEY, 'list').then(setViewMode);
+  }, []);
+
+  const changeViewMode = useCallback((mode: ViewMode) => {
+    setViewMode(mode);
+    preferences.set(VIEW_MODE_PREFERENCE_KEY, mode);
+  }, []);
+
+  // Android back leaves selection mode before leaving the screen
+  useEffect(() => {
+    if (!selecting) return;
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      setSelectedIds([]);
+      return true;
+    });
+    return () => subscription.remove();
+  }, [selecting]);
+
+  // Read by toggleSelected for the limit alert, so the callback keeps one identity
+  const selectedIdsRef = useRef(selectedIds);
+  useEffect(() => {
+    selectedIdsRef.current = selectedIds;
+  }, [selectedIds]);
+
+  const toggleSelected = useCallback((launch: Launch) => {
+    const current = selectedIdsRef.current;
+    if (!current.includes(launch.id) && current.length >= MAX_COMPARED_LAUNCHES) {
+      Alert.alert('Selection full', `You can compare up to ${MAX_COMPARED_LAUNCHES} launches at a time.`);
+      return;
+    }
+    setSelectedIds(prev => {
+      if (prev.includes(launch.id)) {
+        return prev.filter(id => id !== launch.id);
+      }
+      return prev.length >= MAX_COMPARED_LAUNCHES ? prev : [...prev, launch.id];
+    });
+  }, []);
+
+  const handleCompare = useCallback(() => {
+    router.push({
+      pathname: '/compare',
+      params: { ids: selectedIds.join(',') },
+    });
+    setSelectedIds([]);
+  }, [router, selectedIds]);
+
+  const handleLaunchPress = useCallback((launch: Launch) => {
+    if (selecting) {
+      toggleSelected(launch);
+      return;
+    }
+    seedLaunch(launch);
+    router.push({
+      pathname: '/details',
+      params: { launchId: launch.id },
+    });
+  }, [router, selecting, toggleSelected]);
+
+  // Exports the whole result set, not just the pages loaded so far
+  const handleExport = useCallback(() => {
+    Alert.alert(
+      'Export launches',
+      `Share ${totalDocs} ${totalDocs === 1 ? 'launch' : 'launches'} matching the current search and filters.`,
+      [
+        { text: 'CSV', onPress: () => exportLaunches('csv', fetchAllPages) },
+        { text: 'JSON', onPress: () => exportLaunches('json', fetchAllPages) },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  }, [totalDocs, exportLaunches, fetchAllPages]);
+
+  const handleSearch = useCallback((text: string) => {
+    console.log('Search input changed to:', text);
+    setSearchText(text);
+  }, []);
+
+  const handleApplyFilters = useCallback((nextFilters: LaunchFilters) => {
+    setFilterSheetVisible(false);
+    applyFilters(nextFilters);
+  }, [applyFilters]);
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !loading) {
+      loadNextPage();
+    }
+  }, [hasNextPage, loading, loadNextPage]);
+
+  const formatCachedTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const renderFooter = () => {
+    if (!hasNextPage) return null;
+    return (
+      <View style={styles.footer}>
+        <ActivityIndicator size="small" color={colors.primary} />
+        <Text style={styles.footerText}>Loading more...</Text>
+      </View>
+    );
+  };
+
+  const renderItem = useCallback(({ item }: { item: Launch }) => (
+    <LaunchRow
+      launch={item}
+      onPress={handleLaunchPress}
+      isFavorite={isFavorite(item.id)}
+      onToggleFavorite={toggleFavorite}
+      onLongPress={toggleSelected}
+      selected={selecting ? selectedIds.includes(item.id) : undefined}
+    />
+  ), [handleLaunchPress, isFavorite, toggleFavorite, toggleSelected, selecting, selectedIds]);
+
+  const keyExtractor = useCallback((item: Launch) => item.id, []);
+
+  const getItemLayout = useCallback((data: any, index: number) => ({
+    length: 92, 
+    offset: 92 * index,
+    index,
+  }), []);
+
+  const emptyMessage = searchText || filtersActive ? 'No missions found' : 'No launches available';
+  const emptySubtitle = filtersActive
+    ? 'Try removing some filters'
+    : searchText ? 'Try a different search term' : 'Check back later for updates';
+
+  if (loading && launches.length === 0) {
+    return <LoadingState />;
+  }
+
+  if (error && launches.length === 0) {
+    return <ErrorState error={error} onRetry={refresh} />;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Tabs.Screen
+        options={{
+          headerRight: () => (
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                style={styles.headerAction}
+                onPress={handleExport}
+                disabled={exportingData || launches.length === 0}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                accessibilityLabel="Export launches"
+              >
+                {exportingData
+                  ? <ActivityIndicator size="small" color={colors.chromeText} />
+                  : <Ionicons name="share-outline" color={colors.chromeText} size={22} />}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerAction}
+                onPress={exportUpcoming}
+                disabled={exportingCalendar}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                accessibilityLabel="Export upcoming launches to calendar"
+              >
+                {exportingCalendar
+                  ? <ActivityIndicator size="small" color={colors.chromeText} />
+                  : <Ionicons name="calendar-outline" color={colors.chromeText} size={22} />}
+              </TouchableOpacity>
+              <SettingsButton style={styles.headerAction} />
+            </View>
+          ),
+        }}
+      />
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>🚀 SpaceX Launches</Text>
+        <View style={styles.searchContainer}>
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search missions..."
+            placeholderTextColor={colors.textMuted}
+            value={searchText}
+            onChangeText={handleSearch}
+            returnKeyType="search"
+            onSubmitEditing={() => Keyboard.dismiss()}
+          />
+          {searchText.length > 0 && (
+            <TouchableOpacity
+              style={styles.clearButton}
+              onPress={() => {
+                setSearchText('');
+                reset();
+              }}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Text style={styles.clearButtonText}>✕</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.filterButton, filtersActive && styles.filterButtonActive]}
+            onPress={() => setFilterSheetVisible(true)}
+            accessibilityLabel="Filter launches"
+          >
+            <Text style={[styles.filterButtonText, filtersActive && styles.filterButtonTextActive]}>
+              Filters
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <SortSelector value={sort} onChange={changeSort} />
+        <View style={styles.viewRow}>
+          <Text style={styles.resultCount}>
+            {launches.length > 0 ? `${totalDocs} ${totalDocs === 1 ? 'mission' : 'missions'}` : ''}
+          </Text>
+          <View style={styles.viewToggle}>
+            {VIEW_OPTIONS.map(option => {
+              const selected = option.value === viewMode;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.viewOption, selected && styles.viewOptionSelected]}
+                  onPress={() => changeViewMode(option.value)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                >
+                  <Text style={[styles.viewOptionText, selected && styles.viewOptionTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      </View>
+
+      <FilterChips filters={filters} launchpads={launchpads} rockets={rockets} onChange={applyFilters} />
+
+      {offlineSince !== null && (
+        <View style={styles.offlineBanner}>
+          <Text style={styles.offlineBannerText}>
+            Offline, showing data from {formatCachedTime(offlineSince)}
+          </Text>
+        </View>
+      )}
+
+      {viewMode === 'timeline' ? (
+        <LaunchTimeline
+          filters={filters}
+          query={searchQuery}
+          sort={sort}
+          renderItem={renderItem}
+          emptyMessage={emptyMessage}
+          emptySubtitle={emptySubtitle}
+        />
+      ) : (
+        <FlatList
+          data={launches}
+          renderItem={renderItem}
+          keyExtractor={keyExtractor}
+          extraData={isFavorite}
+          getItemLayout={getItemLayout}
+          initialNumToRender={10}
+          maxToRenderPerBatch={10}
+          windowSize={10}
+          removeClippedSubviews={true}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.1}
+          ListFooterComponent={renderFooter}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={refresh} />
+          }
+          ListEmptyComponent={
+            <EmptyState
+              message={emptyMessage}
+              subtitle={emptySubtitle}
+            />
+          }
+        />
+      )}
+
+      {selecting && (
+        <View style={styles.selectionBar}>
+          <Text style={styles.selectionText}>
+            {selectedIds.length} selected
+          </Text>
+          <TouchableOpacity
+            style={styles.selectionButton}
+            onPress={() => setSelectedIds([])}
+            accessibilityLabel="Cancel selection"
+          >
+            <Text style={styles.selectionCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.selectionButton, styles.compareButton, selectedIds.length < 2 && styles.compareButtonDisabled]}
+            onPress={handleCompare}
+            disabled={selectedIds.length < 2}
+            accessibilityLabel="Compare selected launches"
+          >
+            <Text style={styles.compareButtonText}>Compare</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <FilterSheet
+        visible={filterSheetVisible}
+        filters={filters}
+        launchpads={launchpads}
+        onApply={handleApplyFilters}
+        onClose={() => setFilterSheetVisible(false)}
+      />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  headerAction: {
+    marginHorizontal: 8,
+  },
+  header: {
+    backgroundColor: colors.chrome,
+    paddingTop: 20,
+    paddingBottom: 16,
+    paddingHorizontal: 16,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.chromeText,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  searchContainer: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 4,
+    paddingVertical: 4,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  searchInput: {
+    height: 44,
+    paddingHorizontal: 16,
+    fontSize: 16,
+    color: colors.text,
+    flex: 1,
+  },
+  clearButton: {
+    padding: 8,
+    marginLeft: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  clearButtonText: {
+    fontSize: 18,
+    color: colors.textMuted,
+    fontWeight: 'bold',
+  },
+  filterButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 4,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceMuted,
+  },
+  filterButtonActive: {
+    backgroundColor: colors.primary,
+  },
+  filterButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  filterButtonTextActive: {
+    color: colors.onPrimary,
+  },
+  viewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  resultCount: {
+    fontSize: 13,
+    color: colors.chromeMuted,
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: colors.chromeBorder,
+    borderRadius: 14,
+    overflow: 'hidden',
+  },
+  viewOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+  viewOptionSelected: {
+    backgroundColor: colors.chromeText,
+  },
+  viewOptionText: {
+    fontSize: 13,
+    color: colors.chromeMuted,
+  },
+  viewOptionTextSelected: {
+    color: colors.chrome,
+    fontWeight: '600',
+  },
+  offlineBanner: {
+    backgroundColor: colors.warningBackground,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.warningBorder,
+  },
+  offlineBannerText: {
+    fontSize: 13,
+    color: colors.warningText,
+    textAlign: 'center',
+  },
+  footer: {
+    padding: 16,
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  footerText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    backgroundColor: colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  selectionText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  selectionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginLeft: 8,
+    borderRadius: 8,
+  },
+  selectionCancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  compareButton: {
+    backgroundColor: colors.primary,
+  },
+  compareButtonDisabled: {
+    opacity: 0.4,
+  },
+  compareButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+}); 
\ No newline at end of file
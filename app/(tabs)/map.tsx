@@ -0,0 +1,290 @@
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Linking, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import MapView, { Callout, Marker } from 'react-native-maps';
+import ErrorState from '../../components/ErrorState';
+import LoadingState from '../../components/LoadingState';
+import { useLaunchpads } from '../../hooks/useLaunchpads';
+import { useTheme, useThemedStyles } from '../../hooks/useTheme';
+import { useUserLocation } from '../../hooks/useUserLocation';
+import { clusterByRegion, GeoCluster, MapRegion, regionForPoints } from '../../lib/geo';
+import { ThemeColors } from '../../lib/theme';
+import { Launchpad } from '../../lib/types';
+
+const WORLD_REGION: MapRegion = {
+  latitude: 20,
+  longitude: -60,
+  latitudeDelta: 100,
+  longitudeDelta: 160,
+};
+
+const getSuccessRate = (launchpad: Launchpad) => {
+  if (launchpad.launch_attempts === 0) return null;
+  return launchpad.launch_successes / launchpad.launch_attempts;
+};
+
+// Busier pads get bigger markers; colour follows the success rate
+const getMarkerSize = (launchpad: Launchpad) => {
+  return Math.min(56, 20 + Math.sqrt(launchpad.launch_attempts) * 3);
+};
+
+const getMarkerColor = (launchpad: Launchpad, colors: ThemeColors) => {
+  const rate = getSuccessRate(launchpad);
+  if (rate === null) return colors.unknown;
+  if (rate >= 0.9) return colors.success;
+  if (rate >= 0.7) return colors.upcoming;
+  return colors.failure;
+};
+
+export default function LaunchpadMapScreen() {
+  const { colors, scheme, mapStyle } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const mapRef = useRef<MapView>(null);
+  const { launchpads, loading, error, refetch } = useLaunchpads();
+  const { location, permissionStatus, requestPermission, getCurrentLocation } = useUserLocation();
+  const [region, setRegion] = useState<MapRegion>(WORLD_REGION);
+
+  useEffect(() => {
+    if (permissionStatus === 'granted') {
+      getCurrentLocation();
+    }
+  }, [permissionStatus, getCurrentLocation]);
+
+  const clusters = useMemo(() => clusterByRegion(launchpads, region), [launchpads, region]);
+
+  const handleOpenLaunchpad = useCallback((launchpad: Launchpad) => {
+    router.push({
+      pathname: '/launchpad',
+      params: { launchpadId: launchpad.id },
+    });
+  }, [router]);
+
+  const handleClusterPress = useCallback((cluster: GeoCluster<Launchpad>) => {
+    mapRef.current?.animateToRegion(regionForPoints(cluster.items), 500);
+  }, []);
+
+  const renderLaunchpadMarker = (launchpad: Launchpad) => {
+    const size = getMarkerSize(launchpad);
+    const rate = getSuccessRate(launchpad);
+
+    return (
+      <Marker
+        key={launchpad.id}
+        coordinate={{ latitude: launchpad.latitude, longitude: launchpad.longitude }}
+        tracksViewChanges={false}
+      >
+        <View
+          style={[
+            styles.marker,
+            { width: size, height: size, borderRadius: size / 2, backgroundColor: getMarkerColor(launchpad, colors) },
+          ]}
+        >
+          <Text style={styles.markerText}>{launchpad.launch_attempts}</Text>
+        </View>
+        <Callout onPress={() => handleOpenLaunchpad(launchpad)}>
+          <View style={styles.callout}>
+            <Text style={styles.calloutTitle}>{launchpad.name}</Text>
+            <Text style={styles.calloutSubtitle}>
+              {launchpad.locality}, {launchpad.region}
+            </Text>
+            <Text style={styles.calloutStats}>
+              {launchpad.launch_attempts} launches
+              {rate !== null ? ` · ${Math.round(rate * 100)}% success` : ''}
+            </Text>
+            <Text style={styles.calloutAction}>View launches ›</Text>
+          </View>
+        </Callout>
+      </Marker>
+    );
+  };
+
+  const renderCluster = (cluster: GeoCluster<Launchpad>) => {
+    if (cluster.items.length === 1) {
+      return renderLaunchpadMarker(cluster.items[0]);
+    }
+
+    const attempts = cluster.items.reduce((sum, launchpad) => sum + launchpad.launch_attempts, 0);
+
+    return (
+      <Marker
+        key={cluster.id}
+        coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+        onPress={() => handleClusterPress(cluster)}
+        tracksViewChanges={false}
+      >
+        <View style={styles.cluster}>
+          <Text style={styles.clusterCount}>{cluster.items.length} pads</Text>
+          <Text style={styles.clusterAttempts}>{attempts} launches</Text>
+        </View>
+      </Marker>
+    );
+  };
+
+  if (loading && launchpads.length === 0) {
+    return <LoadingState message="Loading launchpads..." />;
+  }
+
+  if (error && launchpads.length === 0) {
+    return <ErrorState error={error} onRetry={refetch} />;
+  }
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        initialRegion={WORLD_REGION}
+        onRegionChangeComplete={setRegion}
+        showsCompass={true}
+        showsScale={true}
+        loadingEnabled={true}
+        loadingIndicatorColor={colors.primary}
+        loadingBackgroundColor={colors.surface}
+        customMapStyle={mapStyle}
+        userInterfaceStyle={scheme}
+      >
+        {clusters.map(renderCluster)}
+
+        {location && (
+          <Marker
+            coordinate={{ latitude: location.latitude, longitude: location.longitude }}
+            title="Your Location"
+            pinColor="blue"
+          />
+        )}
+      </MapView>
+
+      <View style={styles.legend}>
+        <View style={styles.legendRow}>
+          <View style={[styles.legendDot, { backgroundColor: colors.success }]} />
+          <Text style={styles.legendText}>≥ 90% success</Text>
+        </View>
+        <View style={styles.legendRow}>
+          <View style={[styles.legendDot, { backgroundColor: colors.upcoming }]} />
+          <Text style={styles.legendText}>70–90%</Text>
+        </View>
+        <View style={styles.legendRow}>
+          <View style={[styles.legendDot, { backgroundColor: colors.failure }]} />
+          <Text style={styles.legendText}>{'< 70%'}</Text>
+        </View>
+        <View style={styles.legendRow}>
+          <View style={[styles.legendDot, { backgroundColor: colors.unknown }]} />
+          <Text style={styles.legendText}>No launches</Text>
+        </View>
+      </View>
+
+      {permissionStatus !== 'granted' && permissionStatus !== 'denied' && (
+        <TouchableOpacity style={styles.locationButton} onPress={requestPermission}>
+          <Text style={styles.locationButtonText}>Show My Location</Text>
+        </TouchableOpacity>
+      )}
+      {permissionStatus === 'denied' && (
+        <TouchableOpacity style={styles.locationButton} onPress={() => Linking.openSettings()}>
+          <Text style={styles.locationButtonText}>Enable Location in Settings</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  map: {
+    flex: 1,
+  },
+  marker: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: colors.onPrimary,
+  },
+  markerText: {
+    color: colors.onPrimary,
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  cluster: {
+    backgroundColor: colors.primary,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: colors.onPrimary,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  clusterCount: {
+    color: colors.onPrimary,
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  clusterAttempts: {
+    color: colors.onPrimary,
+    fontSize: 11,
+  },
+  callout: {
+    width: 200,
+    padding: 4,
+    backgroundColor: colors.surface,
+  },
+  calloutTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  calloutSubtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  calloutStats: {
+    fontSize: 13,
+    color: colors.text,
+    marginTop: 6,
+  },
+  calloutAction: {
+    fontSize: 13,
+    color: colors.primary,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  legend: {
+    position: 'absolute',
+    top: 12,
+    right: 12,
+    backgroundColor: colors.overlay,
+    borderRadius: 8,
+    padding: 8,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 2,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+  legendText: {
+    color: colors.chromeText,
+    fontSize: 12,
+  },
+  locationButton: {
+    position: 'absolute',
+    bottom: 24,
+    alignSelf: 'center',
+    backgroundColor: colors.success,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  locationButtonText: {
+    color: colors.onPrimary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,376 @@
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  FlatList,
+  Linking,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import EmptyState from '../../components/EmptyState';
+import ErrorState from '../../components/ErrorState';
+import HomeLocationPicker from '../../components/HomeLocationPicker';
+import LoadingState from '../../components/LoadingState';
+import UnitToggle from '../../components/UnitToggle';
+import { useAllLaunches } from '../../hooks/useAllLaunches';
+import { useDistanceUnit } from '../../hooks/useDistanceUnit';
+import { seedLaunch } from '../../hooks/useLaunch';
+import { useLaunchpads } from '../../hooks/useLaunchpads';
+import { useTheme, useThemedStyles } from '../../hooks/useTheme';
+import { useUserLocation } from '../../hooks/useUserLocation';
+import { calculateBearing, calculateDistance, formatBearing, formatDistance } from '../../lib/geo';
+import { ThemeColors } from '../../lib/theme';
+import { Launch, Launchpad } from '../../lib/types';
+
+type RankedLaunchpad = {
+  launchpad: Launchpad;
+  distance: number; // Kilometers
+  bearing: number;  // Degrees from north
+  nextLaunch: Launch | null;
+};
+
+export default function NearbyLaunchpadsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { unit } = useDistanceUnit();
+  const { launchpads, loading, error, refetch } = useLaunchpads();
+  const { launches: upcomingLaunches, refetch: refetchUpcoming } = useAllLaunches({ upcoming: true }, 'oldest');
+  const {
+    resolvedLocation: location,
+    locationSource,
+    homeLocation,
+    permissionStatus,
+    loading: locationLoading,
+    error: locationError,
+    requestPermission,
+    getCurrentLocation,
+    setHomeLocation,
+    clearHomeLocation,
+  } = useUserLocation({ watch: true, distanceInterval: 500 });
+  const [pickerVisible, setPickerVisible] = useState(false);
+
+  useEffect(() => {
+    if (permissionStatus === 'granted') {
+      getCurrentLocation();
+    }
+  }, [permissionStatus, getCurrentLocation]);
+
+  // Upcoming launches arrive oldest first, so the first one seen per pad is the next
+  const nextLaunchByPad = useMemo(() => {
+    const next = new Map<string, Launch>();
+    upcomingLaunches.forEach(launch => {
+      if (!next.has(launch.launchpad)) {
+        next.set(launch.launchpad, launch);
+      }
+    });
+    return next;
+  }, [upcomingLaunches]);
+
+  const ranked = useMemo<RankedLaunchpad[]>(() => {
+    if (!location) return [];
+
+    return launchpads
+      .map(launchpad => ({
+        launchpad,
+        distance: calculateDistance(location.latitude, location.longitude, launchpad.latitude, launchpad.longitude),
+        bearing: calculateBearing(location.latitude, location.longitude, launchpad.latitude, launchpad.longitude),
+        nextLaunch: nextLaunchByPad.get(launchpad.id) ?? null,
+      }))
+      .sort((a, b) => a.distance - b.distance);
+  }, [launchpads, location, nextLaunchByPad]);
+
+  const handleLaunchpadPress = useCallback((launchpad: Launchpad) => {
+    router.push({
+      pathname: '/launchpad',
+      params: { launchpadId: launchpad.id },
+    });
+  }, [router]);
+
+  const handleLaunchPress = useCallback((launch: Launch) => {
+    seedLaunch(launch);
+    router.push({
+      pathname: '/details',
+      params: { launchId: launch.id },
+    });
+  }, [router]);
+
+  const handleRefresh = useCallback(() => {
+    refetch();
+    refetchUpcoming();
+    if (permissionStatus === 'granted') {
+      getCurrentLocation();
+    }
+  }, [refetch, refetchUpcoming, permissionStatus, getCurrentLocation]);
+
+  const formatLaunchDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const renderItem = useCallback(({ item, index }: { item: RankedLaunchpad; index: number }) => (
+    <TouchableOpacity style={styles.row} onPress={() => handleLaunchpadPress(item.launchpad)}>
+      <View style={styles.rowHeader}>
+        <Text style={styles.rank}>#{index + 1}</Text>
+        <View style={styles.rowTitle}>
+          <Text style={styles.launchpadName}>{item.launchpad.name}</Text>
+          <Text style={styles.launchpadLocation}>
+            {item.launchpad.locality}, {item.launchpad.region}
+          </Text>
+        </View>
+        <View style={styles.distanceContainer}>
+          <Text style={styles.distance}>{formatDistance(item.distance, unit)}</Text>
+          <Text style={styles.bearing}>{formatBearing(item.bearing)}</Text>
+        </View>
+      </View>
+
+      {item.nextLaunch ? (
+        <TouchableOpacity style={styles.nextLaunch} onPress={() => handleLaunchPress(item.nextLaunch!)}>
+          <Text style={styles.nextLaunchLabel}>Next launch</Text>
+          <Text style={styles.nextLaunchName} numberOfLines={1}>
+            {item.nextLaunch.name} · {formatLaunchDate(item.nextLaunch.date_utc)}
+          </Text>
+        </TouchableOpacity>
+      ) : (
+        <Text style={styles.noLaunch}>No upcoming launches</Text>
+      )}
+    </TouchableOpacity>
+  ), [handleLaunchpadPress, handleLaunchPress, unit, styles]);
+
+  const keyExtractor = useCallback((item: RankedLaunchpad) => item.launchpad.id, []);
+
+  const renderLocationPrompt = () => {
+    if (permissionStatus === 'denied' || permissionStatus === 'restricted') {
+      return (
+        <View style={styles.prompt}>
+          <Text style={styles.promptText}>
+            Location access is off. Enable it in Settings to rank launchpads by distance.
+          </Text>
+          <TouchableOpacity style={styles.promptButton} onPress={() => Linking.openSettings()}>
+            <Text style={styles.promptButtonText}>Open Settings</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.homeButton} onPress={() => setPickerVisible(true)}>
+            <Text style={styles.homeButtonText}>Set Home Location Instead</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (permissionStatus !== 'granted') {
+      return (
+        <View style={styles.prompt}>
+          <Text style={styles.promptText}>
+            Share your location to see which launchpads are closest to you.
+          </Text>
+          <TouchableOpacity style={styles.promptButton} onPress={requestPermission}>
+            <Text style={styles.promptButtonText}>Enable Location</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.homeButton} onPress={() => setPickerVisible(true)}>
+            <Text style={styles.homeButtonText}>Set Home Location Instead</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (locationError) {
+      return <ErrorState message={locationError} onRetry={getCurrentLocation} />;
+    }
+
+    return <LoadingState message="Finding your location..." />;
+  };
+
+  if (loading && launchpads.length === 0) {
+    return <LoadingState message="Loading launchpads..." />;
+  }
+
+  if (error && launchpads.length === 0) {
+    return <ErrorState error={error} onRetry={refetch} />;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => setPickerVisible(true)} disabled={locationSource === 'gps'}>
+          <Text style={styles.headerTitle}>
+            {location ? `${ranked.length} launchpads by distance` : 'Launchpads near you'}
+          </Text>
+          {locationSource === 'home' && (
+            <Text style={styles.headerSubtitle}>From your home location · Change</Text>
+          )}
+        </TouchableOpacity>
+        <UnitToggle />
+      </View>
+
+      {!location ? renderLocationPrompt() : (
+        <FlatList
+          data={ranked}
+          renderItem={renderItem}
+          keyExtractor={keyExtractor}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={<EmptyState message="No launchpads found" subtitle="Pull down to try again" />}
+          refreshControl={
+            <RefreshControl
+              refreshing={loading || locationLoading}
+              onRefresh={handleRefresh}
+              colors={[colors.primary]}
+              tintColor={colors.primary}
+            />
+          }
+        />
+      )}
+
+      <HomeLocationPicker
+        visible={pickerVisible}
+        homeLocation={homeLocation}
+        onSave={home => {
+          setHomeLocation(home);
+          setPickerVisible(false);
+        }}
+        onClear={() => {
+          clearHomeLocation();
+          setPickerVisible(false);
+        }}
+        onClose={() => setPickerVisible(false)}
+      />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    backgroundColor: colors.chrome,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 14,
+    color: colors.chromeMuted,
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    color: colors.primary,
+    marginTop: 2,
+  },
+  listContent: {
+    paddingVertical: 8,
+  },
+  row: {
+    backgroundColor: colors.surface,
+    marginHorizontal: 16,
+    marginVertical: 6,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rank: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.textMuted,
+    width: 36,
+  },
+  rowTitle: {
+    flex: 1,
+  },
+  launchpadName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  launchpadLocation: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  distanceContainer: {
+    alignItems: 'flex-end',
+    marginLeft: 8,
+  },
+  distance: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  bearing: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  nextLaunch: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  nextLaunchLabel: {
+    fontSize: 11,
+    color: colors.textMuted,
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  nextLaunchName: {
+    fontSize: 14,
+    color: colors.primary,
+    fontWeight: '500',
+  },
+  noLaunch: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    fontSize: 13,
+    color: colors.textMuted,
+  },
+  prompt: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  promptText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  promptButton: {
+    backgroundColor: colors.success,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  promptButtonText: {
+    color: colors.onPrimary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  homeButton: {
+    marginTop: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  homeButtonText: {
+    color: colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,271 @@
+import { useRouter } from 'expo-router';
+import React, { useCallback, useMemo } from 'react';
+import {
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from 'react-native';
+import BarChart, { BarDatum } from '../../components/BarChart';
+import ColumnChart, { ColumnDatum } from '../../components/ColumnChart';
+import ErrorState from '../../components/ErrorState';
+import LoadingState from '../../components/LoadingState';
+import { useAllLaunches } from '../../hooks/useAllLaunches';
+import { useLaunchpads } from '../../hooks/useLaunchpads';
+import { useRockets } from '../../hooks/useRockets';
+import { useTheme, useThemedStyles } from '../../hooks/useTheme';
+import { filtersToParams } from '../../lib/filters';
+import { computeLaunchStats, YearStats } from '../../lib/stats';
+import { ThemeColors } from '../../lib/theme';
+import { LaunchFilters } from '../../lib/types';
+
+const LEGEND: { label: string; color: keyof ThemeColors }[] = [
+  { label: 'Successful', color: 'success' },
+  { label: 'Failed', color: 'failure' },
+  { label: 'Upcoming', color: 'upcoming' },
+  { label: 'Unknown', color: 'unknown' },
+];
+
+// Tapping a chart opens the launch list filtered to what was tapped
+const OUTCOME_FILTERS: Record<string, Partial<LaunchFilters>> = {
+  success: { outcomes: ['success'], upcoming: false },
+  failure: { outcomes: ['failure'], upcoming: false },
+  upcoming: { upcoming: true },
+  unknown: { outcomes: ['unknown'], upcoming: false },
+};
+
+const yearFilters = (year: string): Partial<LaunchFilters> => ({
+  dateFrom: `${year}-01-01`,
+  dateTo: `${year}-12-31`,
+});
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+const ordinal = (n: number) => {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const remainder = n % 100;
+  return `${n}${suffixes[(remainder - 20) % 10] ?? suffixes[remainder] ?? suffixes[0]}`;
+};
+
+const shortYear = (year: number) => `'${String(year).slice(-2)}`;
+
+export default function LaunchStatsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { launches, loading, error, refetch } = useAllLaunches({});
+  const { launchpads } = useLaunchpads();
+  const { rockets } = useRockets();
+
+  const stats = useMemo(() => computeLaunchStats(launches), [launches]);
+  const currentYear = new Date().getUTCFullYear();
+  const thisYear = stats.byYear.find(year => year.year === currentYear);
+
+  const showLaunches = useCallback((filters: Partial<LaunchFilters>) => {
+    router.navigate({ pathname: '/', params: filtersToParams(filters) });
+  }, [router]);
+
+  const yearColumns = useMemo<ColumnDatum[]>(() => stats.byYear.map((year: YearStats) => ({
+    key: String(year.year),
+    label: shortYear(year.year),
+    segments: [
+      { value: year.successes, color: colors.success },
+      { value: year.failures, color: colors.failure },
+      { value: year.unknown, color: colors.unknown },
+      { value: year.upcoming, color: colors.upcoming },
+    ],
+  })), [stats, colors]);
+
+  const rateColumns = useMemo<ColumnDatum[]>(() => stats.byYear
+    .filter(year => year.successRate !== null)
+    .map(year => ({
+      key: String(year.year),
+      label: shortYear(year.year),
+      caption: formatRate(year.successRate),
+      segments: [{ value: (year.successRate ?? 0) * 100, color: colors.success }],
+    })), [stats, colors]);
+
+  const outcomeBars: BarDatum[] = [
+    { key: 'success', label: 'Successful', value: stats.successes, color: colors.success },
+    { key: 'failure', label: 'Failed', value: stats.failures, color: colors.failure },
+    { key: 'upcoming', label: 'Upcoming', value: stats.upcoming, color: colors.upcoming },
+    { key: 'unknown', label: 'Unknown', value: stats.unknown, color: colors.unknown },
+  ].filter(bar => bar.value > 0);
+
+  const launchpadBars = stats.byLaunchpad.map(entry => ({
+    key: entry.id,
+    label: launchpads.find(launchpad => launchpad.id === entry.id)?.name ?? 'Unknown pad',
+    value: entry.total,
+  }));
+
+  const rocketBars = stats.byRocket.map(entry => ({
+    key: entry.id,
+    label: rockets.find(rocket => rocket.id === entry.id)?.name ?? 'Unknown rocket',
+    value: entry.total,
+  }));
+
+  const boosterBars = stats.boosterFlights.map(entry => ({
+    key: String(entry.flight),
+    label: `${ordinal(entry.flight)} flight`,
+    value: entry.count,
+    color: entry.flight > 1 ? colors.success : colors.primary,
+  }));
+
+  if (loading && launches.length === 0) {
+    return <LoadingState message="Crunching launch numbers..." />;
+  }
+
+  if (error && launches.length === 0) {
+    return <ErrorState error={error} onRetry={refetch} />;
+  }
+
+  const summary = [
+    { label: 'Launches', value: String(stats.total) },
+    { label: 'Success rate', value: formatRate(stats.successRate) },
+    { label: String(currentYear), value: String(thisYear?.total ?? 0) },
+    { label: 'Upcoming', value: String(stats.upcoming) },
+  ];
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={loading && launches.length > 0} onRefresh={refetch} />}
+    >
+      <View style={styles.summaryRow}>
+        {summary.map(item => (
+          <View key={item.label} style={styles.summaryCell}>
+            <Text style={styles.summaryValue}>{item.value}</Text>
+            <Text style={styles.summaryLabel}>{item.label}</Text>
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.hint}>Tap a bar to see those launches</Text>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>📅 Launches per Year</Text>
+        <ColumnChart data={yearColumns} onPressColumn={column => showLaunches(yearFilters(column.key))} />
+        <View style={styles.legend}>
+          {LEGEND.map(item => (
+            <View key={item.label} style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: colors[item.color] }]} />
+              <Text style={styles.legendText}>{item.label}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>🎯 Outcomes</Text>
+        <BarChart data={outcomeBars} onPressBar={bar => showLaunches(OUTCOME_FILTERS[bar.key])} />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>📈 Success Rate by Year</Text>
+        <ColumnChart
+          data={rateColumns}
+          maxValue={100}
+          onPressColumn={column => showLaunches({ ...yearFilters(column.key), upcoming: false })}
+        />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>🚀 Launchpads</Text>
+        <BarChart data={launchpadBars} onPressBar={bar => showLaunches({ launchpads: [bar.key] })} />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>🛰️ Rockets</Text>
+        <BarChart data={rocketBars} color={colors.text} onPressBar={bar => showLaunches({ rockets: [bar.key] })} />
+      </View>
+
+      {boosterBars.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>♻️ Booster Reuse</Text>
+          <Text style={styles.cardMeta}>
+            {stats.reusedLaunches} {stats.reusedLaunches === 1 ? 'launch' : 'launches'} flew a previously flown booster
+            {stats.mostFlownBooster && ` · most flown booster: ${stats.mostFlownBooster.flights} flights`}
+          </Text>
+          <BarChart data={boosterBars} />
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    paddingVertical: 16,
+  },
+  summaryCell: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    marginTop: 4,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textMuted,
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  cardMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+    marginBottom: 4,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+});
@@ -1,41 +1,77 @@
-import { Stack } from 'expo-router';
+import * as Notifications from 'expo-notifications';
+import { Stack, useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { useEffect } from 'react';
+import { StyleSheet } from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import ThemeProvider from '../components/ThemeProvider';
+import { useTheme } from '../hooks/useTheme';
+
+// Show launch reminders even while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
 
 export default function RootLayout() {
+  const router = useRouter();
+
+  // Tapping a reminder opens the launch it is about
+  useEffect(() => {
+    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      const launchId = response.notification.request.content.data?.launchId;
+      if (typeof launchId === 'string') {
+        router.push({ pathname: '/details', params: { launchId } });
+      }
+    });
+    return () => subscription.remove();
+  }, [router]);
+
+  return (
+    <GestureHandlerRootView style={styles.root}>
+      <ThemeProvider>
+        <StatusBar style="light" />
+        <RootStack />
+      </ThemeProvider>
+    </GestureHandlerRootView>
+  );
+}
+
+function RootStack() {
+  const { colors } = useTheme();
+
+  const headerOptions = {
+    headerShown: true,
+    headerStyle: {
+      backgroundColor: colors.chrome,
+    },
+    headerTintColor: colors.chromeText,
+    headerTitleStyle: {
+      fontWeight: 'bold' as const,
+    },
+  };
+
   return (
-    <>
-      <StatusBar style="light" />
-      <Stack screenOptions={{ headerShown: false }} initialRouteName="landing">
-        <Stack.Screen name="landing" />
-        <Stack.Screen 
-          name="index" 
-          options={{ 
-            title: 'SpaceX Launches',
-            headerShown: true,
-            headerStyle: {
-              backgroundColor: '#000',
-            },
-            headerTintColor: '#fff',
-            headerTitleStyle: {
-              fontWeight: 'bold',
-            },
-          }} 
-        />
-        <Stack.Screen 
-          name="details" 
-          options={{ 
-            title: 'Launch Details',
-            headerShown: true,
-            headerStyle: {
-              backgroundColor: '#000',
-            },
-            headerTintColor: '#fff',
-            headerTitleStyle: {
-              fontWeight: 'bold',
-            },
-          }} 
-        />
-      </Stack>
-    </>
+    <Stack screenOptions={{ headerShown: false }} initialRouteName="landing">
+      <Stack.Screen name="landing" />
+      <Stack.Screen name="(tabs)" />
+      <Stack.Screen name="details" options={{ ...headerOptions, title: 'Launch Details' }} />
+      <Stack.Screen name="rocket" options={{ ...headerOptions, title: 'Rocket' }} />
+      <Stack.Screen name="launchpad" options={{ ...headerOptions, title: 'Launchpad' }} />
+      <Stack.Screen name="compare" options={{ ...headerOptions, title: 'Compare Launches' }} />
+      <Stack.Screen name="settings" options={{ ...headerOptions, title: 'Settings' }} />
+      <Stack.Screen name="launch/[launchId]" options={{ ...headerOptions, title: 'Launch Details' }} />
+      <Stack.Screen name="launchpad/[launchpadId]" options={{ ...headerOptions, title: 'Launchpad' }} />
+    </Stack>
   );
 }
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,184 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import ErrorState from '../components/ErrorState';
+import LoadingState from '../components/LoadingState';
+import { useDistanceUnit } from '../hooks/useDistanceUnit';
+import { seedLaunch } from '../hooks/useLaunch';
+import { useLaunchComparison } from '../hooks/useLaunchComparison';
+import { useThemedStyles } from '../hooks/useTheme';
+import { buildComparison, getPadDistances } from '../lib/compare';
+import { formatDistance } from '../lib/geo';
+import { ThemeColors } from '../lib/theme';
+
+export default function CompareScreen() {
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { ids } = useLocalSearchParams<{ ids: string }>();
+  const launchIds = (ids ?? '').split(',').filter(Boolean);
+  const { items, loading, error, refetch } = useLaunchComparison(launchIds);
+  const { unit } = useDistanceUnit();
+
+  if (launchIds.length < 2) {
+    return <ErrorState message="Pick at least two launches to compare" />;
+  }
+
+  if (loading && items.length === 0) {
+    return <LoadingState />;
+  }
+
+  if (error && items.length === 0) {
+    return <ErrorState error={error} onRetry={refetch} />;
+  }
+
+  const rows = buildComparison(items);
+  const padDistances = getPadDistances(items);
+  const differences = rows.filter(row => row.differs).length;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.summary}>
+        {differences === 0
+          ? 'These launches match on everything below'
+          : `${differences} of ${rows.length} details differ`}
+      </Text>
+
+      <View style={styles.table}>
+        <View style={[styles.row, styles.headerRow]}>
+          <View style={styles.labelCell} />
+          {items.map(({ launch }) => (
+            <TouchableOpacity
+              key={launch.id}
+              style={styles.valueCell}
+              onPress={() => {
+                seedLaunch(launch);
+                router.push({ pathname: '/details', params: { launchId: launch.id } });
+              }}
+              accessibilityLabel={`Open ${launch.name}`}
+            >
+              <Text style={styles.launchName} numberOfLines={3}>{launch.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {rows.map(row => (
+          <View key={row.key} style={[styles.row, row.differs && styles.rowDiffers]}>
+            <View style={styles.labelCell}>
+              <Text style={styles.label}>{row.label}</Text>
+            </View>
+            {row.values.map((value, index) => (
+              <View key={items[index].launch.id} style={styles.valueCell}>
+                <Text style={[styles.value, row.differs && styles.valueDiffers]}>{value}</Text>
+              </View>
+            ))}
+          </View>
+        ))}
+      </View>
+
+      {padDistances.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>📏 Distance Between Pads</Text>
+          {padDistances.map(pair => (
+            <View key={`${pair.from}-${pair.to}`} style={styles.distanceRow}>
+              <Text style={styles.distancePair} numberOfLines={2}>
+                {pair.from} ↔ {pair.to}
+              </Text>
+              <Text style={styles.distanceValue}>
+                {pair.distance === 0 ? 'Same pad' : formatDistance(pair.distance, unit)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 16,
+  },
+  summary: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  table: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerRow: {
+    backgroundColor: colors.chrome,
+  },
+  rowDiffers: {
+    backgroundColor: colors.highlight,
+  },
+  labelCell: {
+    width: 96,
+    padding: 12,
+    justifyContent: 'center',
+  },
+  valueCell: {
+    flex: 1,
+    padding: 12,
+    justifyContent: 'center',
+  },
+  launchName: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.chromeText,
+  },
+  label: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    fontWeight: '500',
+  },
+  value: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  valueDiffers: {
+    fontWeight: '600',
+    color: colors.highlightText,
+  },
+  section: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 8,
+  },
+  distanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  distancePair: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+    marginRight: 12,
+  },
+  distanceValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
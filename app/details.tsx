@@ -1,74 +1,65 @@
-import { useLocalSearchParams } from 'expo-router';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { Image } from 'expo-image';
+import * as WebBrowser from 'expo-web-browser';
 import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
-  Image,
   ScrollView,
+  Share,
   StyleSheet,
   Text,
+  TouchableOpacity,
   View
 } from 'react-native';
 import ErrorState from '../components/ErrorState';
 import LoadingState from '../components/LoadingState';
 import MapCard from '../components/MapCard';
+import PhotoGallery from '../components/PhotoGallery';
+import ReminderSettings from '../components/ReminderSettings';
+import { useCalendarExport } from '../hooks/useCalendarExport';
+import { useCountdown } from '../hooks/useCountdown';
+import { useFavorites } from '../hooks/useFavorites';
+import { useLaunch } from '../hooks/useLaunch';
 import { useLaunchpad } from '../hooks/useLaunchpad';
-import { api } from '../lib/api';
-import { Launch } from '../lib/types';
+import { useRocket } from '../hooks/useRocket';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { getLaunchImageSource, getLaunchPhotos } from '../lib/images';
+import { formatNetDate } from '../lib/countdown';
+import { createLaunchUrl } from '../lib/links';
+import { logger } from '../lib/logger';
+import { getLaunchStatus, STATUS_LABELS } from '../lib/stats';
+import { ThemeColors } from '../lib/theme';
+import { DatePrecision, Launch, LaunchCore } from '../lib/types';
 
 export default function LaunchDetailsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
   const { launchId } = useLocalSearchParams<{ launchId: string }>();
-  const [launch, setLaunch] = useState<Launch | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { launch, loading, error, refetch } = useLaunch(launchId ?? '');
+  const { isFavorite, toggleFavorite, updateFavorites } = useFavorites();
+  const favorite = launch ? isFavorite(launch.id) : false;
+  const countdown = useCountdown(launch?.date_utc, Boolean(launch?.upcoming), launch?.date_precision);
+  const [galleryIndex, setGalleryIndex] = useState<number | null>(null);
+
+  // Keep the saved copy in sync with what we just loaded
+  useEffect(() => {
+    if (launch) {
+      updateFavorites([launch]);
+    }
+  }, [launch, updateFavorites]);
 
   const { launchpad, loading: launchpadLoading, error: launchpadError } = useLaunchpad(
     launch?.launchpad || ''
   );
+  const { rocket } = useRocket(launch?.rocket || '');
+  const { exporting, exportLaunch } = useCalendarExport();
 
-  useEffect(() => {
-    if (launchId) {
-      fetchLaunchDetails();
-    }
-  }, [launchId]);
-
-  const fetchLaunchDetails = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      // For now, we'll use the simple API to get launch details
-      // In a real app, you might want a specific endpoint for single launch
-      const launches = await api.fetchLaunchesSimple();
-      const foundLaunch = launches.find(l => l.id === launchId);
-      
-      if (foundLaunch) {
-        setLaunch(foundLaunch);
-      } else {
-        setError('Launch not found');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch launch details';
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
+  // Only show a clock time once the launch is scheduled to the hour
+  const formatDate = (dateString: string, precision: DatePrecision) => {
+    if (precision !== 'hour') {
+      return formatNetDate(dateString, precision);
     }
-  };
-
-  const getStatusText = () => {
-    if (launch?.upcoming) return 'Upcoming';
-    if (launch?.success === true) return 'Successful';
-    if (launch?.success === false) return 'Failed';
-    return 'Unknown';
-  };
-
-  const getStatusColor = () => {
-    if (launch?.upcoming) return '#FFA500'; 
-    if (launch?.success === true) return '#4CAF50'; 
-    if (launch?.success === false) return '#F44336'; 
-    return '#9E9E9E'; 
-  };
-
-  const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
       weekday: 'long',
@@ -80,49 +71,247 @@ export default function LaunchDetailsScreen() {
     });
   };
 
-  const getImageSource = () => {
-    if (launch?.links.flickr?.original?.[0]) {
-      return { uri: launch.links.flickr.original[0] };
-    }
-    if (launch?.links.patch?.large) {
-      return { uri: launch.links.patch.large };
+  const getExternalLinks = (links: Launch['links']) => {
+    return [
+      { label: 'Watch webcast', url: links.webcast },
+      { label: 'Read article', url: links.article },
+      { label: 'Wikipedia', url: links.wikipedia },
+      { label: 'Press kit', url: links.presskit },
+      { label: 'Reddit campaign', url: links.reddit?.campaign },
+    ].filter((link): link is { label: string; url: string } => Boolean(link.url));
+  };
+
+  const getLandingText = (core: LaunchCore) => {
+    if (!core.landing_attempt) return 'No landing attempt';
+    const type = core.landing_type ? `${core.landing_type} landing` : 'Landing';
+    if (core.landing_success === true) return `${type} succeeded`;
+    if (core.landing_success === false) return `${type} failed`;
+    return `${type} planned`;
+  };
+
+  const getLandingColor = (core: LaunchCore) => {
+    if (core.landing_success === true) return colors.success;
+    if (core.landing_success === false) return colors.failure;
+    return colors.unknown;
+  };
+
+  const handleShare = async (sharedLaunch: Launch) => {
+    const url = createLaunchUrl(sharedLaunch.id);
+    try {
+      await Share.share({ title: sharedLaunch.name, message: `${sharedLaunch.name}\n${url}`, url });
+    } catch (err) {
+      logger.error('Failed to share launch', err);
     }
-    if (launch?.links.patch?.small) {
-      return { uri: launch.links.patch.small };
+  };
+
+  const handleOpenLink = async (url: string) => {
+    try {
+      await WebBrowser.openBrowserAsync(url);
+    } catch (err) {
+      logger.error('Failed to open link', err);
     }
-    return require('../assets/images/icon.png');
   };
 
-  if (loading) {
+  if (loading && !launch) {
     return <LoadingState message="Loading launch details..." />;
   }
 
-  if (error || !launch) {
-    return <ErrorState message={error || 'Launch not found'} onRetry={fetchLaunchDetails} />;
+  if (!launch) {
+    return <ErrorState error={error} message="Launch not found" onRetry={refetch} />;
   }
 
+  const photos = getLaunchPhotos(launch);
+  const status = getLaunchStatus(launch);
+
   return (
     <ScrollView style={styles.container}>
-      <View style={styles.imageContainer}>
-        <Image source={getImageSource()} style={styles.image} />
+      <Stack.Screen
+        options={{
+          headerRight: () => (
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                onPress={() => handleShare(launch)}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                accessibilityLabel="Share launch"
+              >
+                <Text style={styles.shareText}>Share</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => toggleFavorite(launch)}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                accessibilityLabel={favorite ? 'Remove from favorites' : 'Add to favorites'}
+              >
+                <Text style={[styles.favoriteIcon, favorite && styles.favoriteIconActive]}>
+                  {favorite ? '★' : '☆'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          ),
+        }}
+      />
+      <TouchableOpacity
+        style={styles.imageContainer}
+        activeOpacity={0.9}
+        onPress={() => setGalleryIndex(0)}
+        disabled={photos.length === 0}
+        accessibilityLabel={photos.length > 0 ? 'Open photo gallery' : undefined}
+      >
+        <Image source={getLaunchImageSource(launch)} style={styles.image} contentFit="cover" cachePolicy="memory-disk" />
         <View style={styles.statusBadge}>
-          <View style={[styles.statusDot, { backgroundColor: getStatusColor() }]} />
-          <Text style={styles.statusText}>{getStatusText()}</Text>
+          <View style={[styles.statusDot, { backgroundColor: colors[status] }]} />
+          <Text style={styles.statusText}>{STATUS_LABELS[status]}</Text>
         </View>
-      </View>
+        {photos.length > 1 && (
+          <View style={styles.photoCountBadge}>
+            <Text style={styles.photoCountText}>📷 {photos.length}</Text>
+          </View>
+        )}
+      </TouchableOpacity>
 
       <View style={styles.detailsContainer}>
+        <Text style={styles.flightNumber}>Flight #{launch.flight_number}</Text>
         <Text style={styles.missionName}>{launch.name}</Text>
-        <Text style={styles.launchDate}>{formatDate(launch.date_utc)}</Text>
+        <Text style={styles.launchDate}>{formatDate(launch.date_utc, launch.date_precision)}</Text>
+
+        {countdown && (
+          <View style={styles.countdownSection}>
+            <Text style={styles.countdownLabel}>
+              {launch.date_precision === 'hour' ? 'Liftoff in' : 'Launch window'}
+            </Text>
+            <Text style={styles.countdownText}>{countdown}</Text>
+          </View>
+        )}
+
+        {rocket && (
+          <TouchableOpacity
+            style={styles.section}
+            onPress={() => router.push({ pathname: '/rocket', params: { rocketId: rocket.id } })}
+          >
+            <Text style={styles.sectionTitle}>🛰️ Rocket</Text>
+            <View style={styles.linkButton}>
+              <View>
+                <Text style={styles.cardTitle}>{rocket.name}</Text>
+                <Text style={styles.cardMeta}>
+                  {rocket.stages} stages · {rocket.success_rate_pct}% success rate
+                </Text>
+              </View>
+              <Text style={styles.linkChevron}>›</Text>
+            </View>
+          </TouchableOpacity>
+        )}
+
+        {launch.details && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>📝 Mission</Text>
+            <Text style={styles.bodyText}>{launch.details}</Text>
+          </View>
+        )}
+
+        {photos.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>📷 Photos ({photos.length})</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {photos.map((uri, index) => (
+                <TouchableOpacity
+                  key={uri}
+                  onPress={() => setGalleryIndex(index)}
+                  accessibilityLabel={`Open photo ${index + 1} of ${photos.length}`}
+                >
+                  <Image source={{ uri }} style={styles.thumbnail} contentFit="cover" cachePolicy="memory-disk" />
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
+        {launch.failures.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>⚠️ Failure</Text>
+            {launch.failures.map((failure, index) => (
+              <View key={index} style={styles.card}>
+                <Text style={styles.cardTitle}>
+                  T+{failure.time}s{failure.altitude !== null ? ` at ${failure.altitude} km` : ''}
+                </Text>
+                <Text style={styles.bodyText}>{failure.reason}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {launch.cores.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>🛬 Booster Landings</Text>
+            {launch.cores.map((core, index) => (
+              <View key={core.core ?? index} style={styles.card}>
+                <View style={styles.coreHeader}>
+                  <Text style={styles.cardTitle}>
+                    {launch.cores.length > 1 ? `Core ${index + 1}` : 'Core'}
+                  </Text>
+                  {core.flight !== null && (
+                    <Text style={styles.cardMeta}>
+                      Flight {core.flight}{core.reused ? ' · Reused' : ''}
+                    </Text>
+                  )}
+                </View>
+                <View style={styles.coreOutcome}>
+                  <View style={[styles.statusDot, { backgroundColor: getLandingColor(core) }]} />
+                  <Text style={styles.bodyText}>{getLandingText(core)}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {getExternalLinks(launch.links).length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>🔗 Links</Text>
+            {getExternalLinks(launch.links).map(link => (
+              <TouchableOpacity
+                key={link.label}
+                style={styles.linkButton}
+                onPress={() => handleOpenLink(link.url)}
+              >
+                <Text style={styles.linkText}>{link.label}</Text>
+                <Text style={styles.linkChevron}>›</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {launch.upcoming && (
+          <View style={styles.remindersSection}>
+            <Text style={styles.sectionTitle}>🔔 Reminders</Text>
+            <ReminderSettings launch={launch} />
+            <TouchableOpacity
+              style={[styles.linkButton, styles.calendarButton]}
+              onPress={() => exportLaunch(launch, launchpad)}
+              disabled={exporting}
+              accessibilityLabel="Add to calendar"
+            >
+              <Text style={styles.linkText}>📅 Add to calendar</Text>
+              {exporting
+                ? <ActivityIndicator size="small" color={colors.primary} />
+                : <Text style={styles.linkChevron}>›</Text>}
+            </TouchableOpacity>
+          </View>
+        )}
         
         {launchpad && (
-          <View style={styles.launchpadSection}>
+          <TouchableOpacity
+            style={styles.launchpadSection}
+            onPress={() => router.push({ pathname: '/launchpad', params: { launchpadId: launchpad.id } })}
+          >
             <Text style={styles.sectionTitle}>🚀 Launchpad</Text>
-            <Text style={styles.launchpadName}>{launchpad.name}</Text>
-            <Text style={styles.launchpadLocation}>
-              {launchpad.locality}, {launchpad.region}
-            </Text>
-          </View>
+            <View style={styles.linkButton}>
+              <View>
+                <Text style={styles.launchpadName}>{launchpad.name}</Text>
+                <Text style={styles.launchpadLocation}>
+                  {launchpad.locality}, {launchpad.region}
+                </Text>
+              </View>
+              <Text style={styles.linkChevron}>›</Text>
+            </View>
+          </TouchableOpacity>
         )}
 
        
@@ -138,7 +327,7 @@ export default function LaunchDetailsScreen() {
           <View style={styles.mapSection}>
             <Text style={styles.sectionTitle}>📍 Location</Text>
             <View style={styles.loadingContainer}>
-              <ActivityIndicator size="large" color="#007AFF" />
+              <ActivityIndicator size="large" color={colors.primary} />
               <Text style={styles.loadingText}>Loading launchpad details...</Text>
             </View>
           </View>
@@ -153,23 +342,68 @@ export default function LaunchDetailsScreen() {
           </View>
         )}
       </View>
+
+      <PhotoGallery
+        visible={galleryIndex !== null}
+        photos={photos}
+        initialIndex={galleryIndex ?? 0}
+        title={launch.name}
+        onClose={() => setGalleryIndex(null)}
+      />
     </ScrollView>
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#f5f5f5',
+    backgroundColor: colors.background,
   },
   imageContainer: {
     position: 'relative',
-    backgroundColor: '#000',
+    backgroundColor: colors.chrome,
   },
   image: {
     width: '100%',
     height: 300,
-    resizeMode: 'cover',
+  },
+  photoCountBadge: {
+    position: 'absolute',
+    bottom: 16,
+    right: 16,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  photoCountText: {
+    color: colors.onPrimary,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  thumbnail: {
+    width: 96,
+    height: 96,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: colors.surfaceMuted,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  shareText: {
+    fontSize: 16,
+    color: colors.chromeText,
+    fontWeight: '600',
+    marginRight: 16,
+  },
+  favoriteIcon: {
+    fontSize: 24,
+    color: colors.chromeText,
+  },
+  favoriteIconActive: {
+    color: colors.favorite,
   },
   statusBadge: {
     position: 'absolute',
@@ -189,7 +423,7 @@ const styles = StyleSheet.create({
     marginRight: 6,
   },
   statusText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 12,
     fontWeight: '600',
     textTransform: 'uppercase',
@@ -197,21 +431,107 @@ const styles = StyleSheet.create({
   detailsContainer: {
     padding: 16,
   },
+  flightNumber: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
   missionName: {
     fontSize: 24,
     fontWeight: 'bold',
-    color: '#333',
+    color: colors.text,
     marginBottom: 8,
   },
   launchDate: {
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
     marginBottom: 24,
   },
+  countdownSection: {
+    backgroundColor: colors.chrome,
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  countdownLabel: {
+    fontSize: 12,
+    color: colors.chromeMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  countdownText: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: colors.upcoming,
+    fontVariant: ['tabular-nums'],
+  },
+  section: {
+    marginBottom: 24,
+  },
+  bodyText: {
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 22,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  cardMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  coreHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  coreOutcome: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  linkButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 8,
+  },
+  linkText: {
+    fontSize: 16,
+    color: colors.primary,
+    fontWeight: '500',
+  },
+  linkChevron: {
+    fontSize: 20,
+    color: colors.textMuted,
+  },
+  remindersSection: {
+    marginBottom: 24,
+  },
+  calendarButton: {
+    marginTop: 12,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
-    color: '#333',
+    color: colors.text,
     marginBottom: 12,
   },
   launchpadSection: {
@@ -220,12 +540,12 @@ const styles = StyleSheet.create({
   launchpadName: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#333',
+    color: colors.text,
     marginBottom: 4,
   },
   launchpadLocation: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
   },
   mapSection: {
     marginBottom: 24,
@@ -233,22 +553,22 @@ const styles = StyleSheet.create({
   loadingContainer: {
     padding: 32,
     alignItems: 'center',
-    backgroundColor: '#fff',
+    backgroundColor: colors.surface,
     borderRadius: 12,
   },
   loadingText: {
     marginTop: 12,
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
   },
   errorContainer: {
     padding: 32,
     alignItems: 'center',
-    backgroundColor: '#fff',
+    backgroundColor: colors.surface,
     borderRadius: 12,
   },
   errorText: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
   },
 }); 
\ No newline at end of file
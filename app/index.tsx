@@ -1,218 +0,0 @@
-import { useRouter } from 'expo-router';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
-import {
-  ActivityIndicator,
-  FlatList,
-  Keyboard,
-  RefreshControl,
-  StyleSheet,
-  Text,
-  TextInput,
-  TouchableOpacity,
-  View,
-} from 'react-native';
-import EmptyState from '../components/EmptyState';
-import ErrorState from '../components/ErrorState';
-import LaunchRow from '../components/LaunchRow';
-import LoadingState from '../components/LoadingState';
-import { useLaunches } from '../hooks/useLaunches';
-import { Launch } from '../lib/types';
-
-export default function LaunchListScreen() {
-  const router = useRouter();
-  const [searchText, setSearchText] = useState('');
-  const searchTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
-  
-  const {
-    launches,
-    loading,
-    error,
-    hasNextPage,
-    refreshing,
-    loadNextPage,
-    refresh,
-    search,
-    reset,
-  } = useLaunches();
-
- 
-  useEffect(() => {
-  
-    if (searchTimeoutRef.current) {
-      clearTimeout(searchTimeoutRef.current);
-    }
-
-    searchTimeoutRef.current = setTimeout(() => {
-      if (searchText.trim()) {
-        search(searchText.trim());
-      } else {
-        reset();
-      }
-    }, 500);
-
-    return () => {
-      if (searchTimeoutRef.current) {
-        clearTimeout(searchTimeoutRef.current);
-      }
-    };
-  }, [searchText, search, reset]);
-
-  const handleLaunchPress = useCallback((launch: Launch) => {
-    router.push({
-      pathname: '/details',
-      params: { launchId: launch.id },
-    });
-  }, [router]);
-
-  const handleSearch = useCallback((text: string) => {
-    console.log('Search input changed to:', text);
-    setSearchText(text);
-  }, []);
-
-  const handleLoadMore = useCallback(() => {
-    if (hasNextPage && !loading) {
-      loadNextPage();
-    }
-  }, [hasNextPage, loading, loadNextPage]);
-
-  const renderFooter = () => {
-    if (!hasNextPage) return null;
-    return (
-      <View style={styles.footer}>
-        <ActivityIndicator size="small" color="#007AFF" />
-        <Text style={styles.footerText}>Loading more...</Text>
-      </View>
-    );
-  };
-
-  const renderItem = useCallback(({ item }: { item: Launch }) => (
-    <LaunchRow launch={item} onPress={handleLaunchPress} />
-  ), [handleLaunchPress]);
-
-  const keyExtractor = useCallback((item: Launch) => item.id, []);
-
-  const getItemLayout = useCallback((data: any, index: number) => ({
-    length: 92, 
-    offset: 92 * index,
-    index,
-  }), []);
-
-  if (loading && launches.length === 0) {
-    return <LoadingState />;
-  }
-
-  if (error && launches.length === 0) {
-    return <ErrorState message={error} onRetry={refresh} />;
-  }
-
-  return (
-    <View style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.headerTitle}>🚀 SpaceX Launches</Text>
-        <View style={styles.searchContainer}>
-          <TextInput
-            style={styles.searchInput}
-            placeholder="Search missions..."
-            placeholderTextColor="#999"
-            value={searchText}
-            onChangeText={handleSearch}
-            returnKeyType="search"
-            onSubmitEditing={() => Keyboard.dismiss()}
-          />
-          {searchText.length > 0 && (
-            <TouchableOpacity
-              style={styles.clearButton}
-              onPress={() => {
-                setSearchText('');
-                reset();
-              }}
-              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-            >
-              <Text style={styles.clearButtonText}>✕</Text>
-            </TouchableOpacity>
-          )}
-        </View>
-      </View>
-
-      <FlatList
-        data={launches}
-        renderItem={renderItem}
-        keyExtractor={keyExtractor}
-        getItemLayout={getItemLayout}
-        initialNumToRender={10}
-        maxToRenderPerBatch={10}
-        windowSize={10}
-        removeClippedSubviews={true}
-        onEndReached={handleLoadMore}
-        onEndReachedThreshold={0.1}
-        ListFooterComponent={renderFooter}
-        refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={refresh} />
-        }
-        ListEmptyComponent={
-          <EmptyState 
-            message={searchText ? 'No missions found' : 'No launches available'}
-            subtitle={searchText ? 'Try a different search term' : 'Check back later for updates'}
-          />
-        }
-      />
-    </View>
-  );
-}
-
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#f5f5f5',
-  },
-  header: {
-    backgroundColor: '#000',
-    paddingTop: 20,
-    paddingBottom: 16,
-    paddingHorizontal: 16,
-  },
-  headerTitle: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: '#fff',
-    textAlign: 'center',
-    marginBottom: 16,
-  },
-  searchContainer: {
-    backgroundColor: '#fff',
-    borderRadius: 12,
-    paddingHorizontal: 4,
-    paddingVertical: 4,
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  searchInput: {
-    height: 44,
-    paddingHorizontal: 16,
-    fontSize: 16,
-    color: '#333',
-    flex: 1,
-  },
-  clearButton: {
-    padding: 8,
-    marginLeft: 8,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  clearButtonText: {
-    fontSize: 18,
-    color: '#999',
-    fontWeight: 'bold',
-  },
-  footer: {
-    padding: 16,
-    alignItems: 'center',
-    flexDirection: 'row',
-    justifyContent: 'center',
-  },
-  footerText: {
-    marginLeft: 8,
-    fontSize: 14,
-    color: '#666',
-  },
-}); 
\ No newline at end of file
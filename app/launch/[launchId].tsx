@@ -0,0 +1,2 @@
+// spacex://launch/<id> and /launch/<id> on the web open the launch details screen
+export { default } from '../details';
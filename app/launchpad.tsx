@@ -0,0 +1,234 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback } from 'react';
+import {
+  ActivityIndicator,
+  Dimensions,
+  FlatList,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View
+} from 'react-native';
+import ErrorState from '../components/ErrorState';
+import LaunchRow from '../components/LaunchRow';
+import LoadingState from '../components/LoadingState';
+import MapCard from '../components/MapCard';
+import { useAllLaunches } from '../hooks/useAllLaunches';
+import { useFavorites } from '../hooks/useFavorites';
+import { seedLaunch } from '../hooks/useLaunch';
+import { useLaunchpad } from '../hooks/useLaunchpad';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { DEFAULT_SORT } from '../lib/sort';
+import { ThemeColors } from '../lib/theme';
+import { Launch, LaunchpadStatus } from '../lib/types';
+
+const { width } = Dimensions.get('window');
+
+export default function LaunchpadScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { launchpadId } = useLocalSearchParams<{ launchpadId: string }>();
+  const { launchpad, loading, error, refetch } = useLaunchpad(launchpadId ?? '');
+  const { launches, loading: launchesLoading, error: launchesError } = useAllLaunches(
+    { launchpads: launchpadId ? [launchpadId] : [] },
+    DEFAULT_SORT,
+    '',
+    Boolean(launchpadId)
+  );
+  const { isFavorite, toggleFavorite } = useFavorites();
+
+  const handleLaunchPress = useCallback((launch: Launch) => {
+    seedLaunch(launch);
+    router.push({
+      pathname: '/details',
+      params: { launchId: launch.id },
+    });
+  }, [router]);
+
+  const getStatusColor = (status: LaunchpadStatus) => {
+    if (status === 'active') return colors.success;
+    if (status === 'under construction') return colors.upcoming;
+    if (status === 'retired' || status === 'lost') return colors.failure;
+    return colors.unknown;
+  };
+
+  const renderItem = useCallback(({ item }: { item: Launch }) => (
+    <LaunchRow
+      launch={item}
+      onPress={handleLaunchPress}
+      isFavorite={isFavorite(item.id)}
+      onToggleFavorite={toggleFavorite}
+    />
+  ), [handleLaunchPress, isFavorite, toggleFavorite]);
+
+  const keyExtractor = useCallback((item: Launch) => item.id, []);
+
+  if (loading && !launchpad) {
+    return <LoadingState message="Loading launchpad details..." />;
+  }
+
+  if (!launchpad) {
+    return <ErrorState error={error} message="Launchpad not found" onRetry={refetch} />;
+  }
+
+  const successRate = launchpad.launch_attempts > 0
+    ? Math.round((launchpad.launch_successes / launchpad.launch_attempts) * 100)
+    : null;
+
+  const stats = [
+    { label: 'Attempts', value: String(launchpad.launch_attempts) },
+    { label: 'Successes', value: String(launchpad.launch_successes) },
+    { label: 'Success rate', value: successRate !== null ? `${successRate}%` : '—' },
+  ];
+
+  const renderHeader = () => (
+    <View>
+      {launchpad.images.large.length > 0 && (
+        <ScrollView horizontal pagingEnabled showsHorizontalScrollIndicator={false}>
+          {launchpad.images.large.map(uri => (
+            <Image key={uri} source={{ uri }} style={styles.image} />
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.detailsContainer}>
+        <Text style={styles.launchpadName}>{launchpad.full_name}</Text>
+        <Text style={styles.launchpadLocation}>
+          {launchpad.locality}, {launchpad.region}
+        </Text>
+        <View style={styles.statusRow}>
+          <View style={[styles.statusDot, { backgroundColor: getStatusColor(launchpad.status) }]} />
+          <Text style={styles.statusText}>{launchpad.status}</Text>
+        </View>
+
+        <View style={styles.statsRow}>
+          {stats.map(stat => (
+            <View key={stat.label} style={styles.statCell}>
+              <Text style={styles.statValue}>{stat.value}</Text>
+              <Text style={styles.statLabel}>{stat.label}</Text>
+            </View>
+          ))}
+        </View>
+
+        {launchpad.details && (
+          <Text style={styles.description}>{launchpad.details}</Text>
+        )}
+      </View>
+
+      <MapCard launchpad={launchpad} />
+
+      <View style={styles.detailsContainer}>
+        <Text style={styles.sectionTitle}>
+          🚀 Launches{launches.length > 0 ? ` (${launches.length})` : ''}
+        </Text>
+        {launchesLoading && launches.length === 0 && (
+          <ActivityIndicator size="small" color={colors.primary} style={styles.launchesLoading} />
+        )}
+        {launchesError && launches.length === 0 && (
+          <Text style={styles.emptyText}>Failed to load launches from this launchpad</Text>
+        )}
+        {!launchesLoading && !launchesError && launches.length === 0 && (
+          <Text style={styles.emptyText}>No launches from this launchpad yet</Text>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={launches}
+      renderItem={renderItem}
+      keyExtractor={keyExtractor}
+      extraData={isFavorite}
+      ListHeaderComponent={renderHeader}
+      initialNumToRender={10}
+    />
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  image: {
+    width,
+    height: 240,
+    resizeMode: 'cover',
+    backgroundColor: colors.chrome,
+  },
+  detailsContainer: {
+    padding: 16,
+  },
+  launchpadName: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  launchpadLocation: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  statusText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    fontWeight: '500',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    paddingVertical: 16,
+    marginBottom: 16,
+  },
+  statCell: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    marginTop: 4,
+  },
+  description: {
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 22,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  launchesLoading: {
+    marginVertical: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
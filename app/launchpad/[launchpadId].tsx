@@ -0,0 +1,2 @@
+// spacex://launchpad/<id> and /launchpad/<id> on the web open the launchpad screen
+export { default } from '../launchpad';
@@ -0,0 +1,244 @@
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+import React, { useCallback } from 'react';
+import {
+  ActivityIndicator,
+  Dimensions,
+  FlatList,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import ErrorState from '../components/ErrorState';
+import LaunchRow from '../components/LaunchRow';
+import LoadingState from '../components/LoadingState';
+import { useAllLaunches } from '../hooks/useAllLaunches';
+import { useFavorites } from '../hooks/useFavorites';
+import { seedLaunch } from '../hooks/useLaunch';
+import { useRocket } from '../hooks/useRocket';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { logger } from '../lib/logger';
+import { DEFAULT_SORT } from '../lib/sort';
+import { ThemeColors } from '../lib/theme';
+import { Launch } from '../lib/types';
+
+const { width } = Dimensions.get('window');
+
+export default function RocketScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { rocketId } = useLocalSearchParams<{ rocketId: string }>();
+  const { rocket, loading, error, refetch } = useRocket(rocketId ?? '');
+  const { launches, loading: launchesLoading, error: launchesError } = useAllLaunches(
+    { rockets: rocketId ? [rocketId] : [] },
+    DEFAULT_SORT,
+    '',
+    Boolean(rocketId)
+  );
+  const { isFavorite, toggleFavorite } = useFavorites();
+
+  const handleLaunchPress = useCallback((launch: Launch) => {
+    seedLaunch(launch);
+    router.push({
+      pathname: '/details',
+      params: { launchId: launch.id },
+    });
+  }, [router]);
+
+  const formatNumber = (value: number) => value.toLocaleString('en-US');
+
+  const handleOpenWikipedia = async (url: string) => {
+    try {
+      await WebBrowser.openBrowserAsync(url);
+    } catch (err) {
+      logger.error('Failed to open link', err);
+    }
+  };
+
+  const renderItem = useCallback(({ item }: { item: Launch }) => (
+    <LaunchRow
+      launch={item}
+      onPress={handleLaunchPress}
+      isFavorite={isFavorite(item.id)}
+      onToggleFavorite={toggleFavorite}
+    />
+  ), [handleLaunchPress, isFavorite, toggleFavorite]);
+
+  const keyExtractor = useCallback((item: Launch) => item.id, []);
+
+  if (loading && !rocket) {
+    return <LoadingState message="Loading rocket details..." />;
+  }
+
+  if (!rocket) {
+    return <ErrorState error={error} message="Rocket not found" onRetry={refetch} />;
+  }
+
+  const specs = [
+    { label: 'Height', value: rocket.height.meters !== null ? `${rocket.height.meters} m` : '—' },
+    { label: 'Diameter', value: rocket.diameter.meters !== null ? `${rocket.diameter.meters} m` : '—' },
+    { label: 'Mass', value: `${formatNumber(rocket.mass.kg)} kg` },
+    { label: 'Stages', value: String(rocket.stages) },
+    { label: 'Boosters', value: String(rocket.boosters) },
+    {
+      label: 'Engines',
+      value: `${rocket.first_stage.engines} × ${rocket.engines.type} ${rocket.engines.version}`.trim(),
+    },
+    { label: 'Success rate', value: `${rocket.success_rate_pct}%` },
+    { label: 'First flight', value: rocket.first_flight },
+    { label: 'Cost per launch', value: `$${formatNumber(rocket.cost_per_launch)}` },
+    { label: 'Status', value: rocket.active ? 'Active' : 'Retired' },
+  ];
+
+  const renderHeader = () => (
+    <View>
+      {rocket.flickr_images.length > 0 && (
+        <ScrollView horizontal pagingEnabled showsHorizontalScrollIndicator={false}>
+          {rocket.flickr_images.map(uri => (
+            <Image key={uri} source={{ uri }} style={styles.image} />
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.detailsContainer}>
+        <Text style={styles.rocketName}>{rocket.name}</Text>
+        <Text style={styles.rocketMeta}>{rocket.company} · {rocket.country}</Text>
+        <Text style={styles.description}>{rocket.description}</Text>
+
+        <Text style={styles.sectionTitle}>📐 Specifications</Text>
+        <View style={styles.specGrid}>
+          {specs.map(spec => (
+            <View key={spec.label} style={styles.specCell}>
+              <Text style={styles.specLabel}>{spec.label}</Text>
+              <Text style={styles.specValue}>{spec.value}</Text>
+            </View>
+          ))}
+        </View>
+
+        {rocket.wikipedia && (
+          <TouchableOpacity style={styles.linkButton} onPress={() => handleOpenWikipedia(rocket.wikipedia)}>
+            <Text style={styles.linkText}>Wikipedia</Text>
+            <Text style={styles.linkChevron}>›</Text>
+          </TouchableOpacity>
+        )}
+
+        <Text style={styles.sectionTitle}>
+          🚀 Launches{launches.length > 0 ? ` (${launches.length})` : ''}
+        </Text>
+        {launchesLoading && launches.length === 0 && (
+          <ActivityIndicator size="small" color={colors.primary} style={styles.launchesLoading} />
+        )}
+        {launchesError && launches.length === 0 && (
+          <Text style={styles.emptyText}>Failed to load launches for this rocket</Text>
+        )}
+        {!launchesLoading && !launchesError && launches.length === 0 && (
+          <Text style={styles.emptyText}>This rocket hasn&apos;t flown yet</Text>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      data={launches}
+      renderItem={renderItem}
+      keyExtractor={keyExtractor}
+      extraData={isFavorite}
+      ListHeaderComponent={renderHeader}
+      initialNumToRender={10}
+    />
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  image: {
+    width,
+    height: 300,
+    resizeMode: 'cover',
+    backgroundColor: colors.chrome,
+  },
+  detailsContainer: {
+    padding: 16,
+  },
+  rocketName: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  rocketMeta: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 16,
+  },
+  description: {
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  specGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 8,
+    marginBottom: 16,
+  },
+  specCell: {
+    width: '50%',
+    padding: 8,
+  },
+  specLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  specValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 24,
+  },
+  linkText: {
+    fontSize: 16,
+    color: colors.primary,
+    fontWeight: '500',
+  },
+  linkChevron: {
+    fontSize: 20,
+    color: colors.textMuted,
+  },
+  launchesLoading: {
+    marginVertical: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,45 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, View } from 'react-native';
+import ThemeToggle from '../components/ThemeToggle';
+import { useThemedStyles } from '../hooks/useTheme';
+import { ThemeColors } from '../lib/theme';
+
+export default function SettingsScreen() {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🎨 Appearance</Text>
+        <ThemeToggle />
+        <Text style={styles.hint}>System follows your device&apos;s light or dark setting.</Text>
+      </View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 16,
+  },
+  section: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textMuted,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,88 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { ThemeColors } from '../lib/theme';
+
+export type BarDatum = {
+  key: string;
+  label: string;
+  value: number;
+  color?: string;
+  caption?: string; // Shown instead of the raw value, e.g. "12 · 92%"
+};
+
+interface BarChartProps {
+  data: BarDatum[];
+  color?: string;
+  onPressBar?: (datum: BarDatum) => void;
+}
+
+// Horizontal bars, one row per datum, scaled to the largest value
+const BarChart: React.FC<BarChartProps> = ({ data, color, onPressBar }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const maxValue = Math.max(1, ...data.map(datum => datum.value));
+
+  return (
+    <View>
+      {data.map(datum => {
+        const caption = datum.caption ?? String(datum.value);
+        return (
+          <TouchableOpacity
+            key={datum.key}
+            style={styles.row}
+            onPress={onPressBar ? () => onPressBar(datum) : undefined}
+            disabled={!onPressBar}
+            accessibilityLabel={`${datum.label}: ${caption}`}
+          >
+            <Text style={styles.label} numberOfLines={1}>{datum.label}</Text>
+            <View style={styles.track}>
+              <View
+                style={[
+                  styles.fill,
+                  { width: `${(datum.value / maxValue) * 100}%`, backgroundColor: datum.color ?? color ?? colors.primary },
+                ]}
+              />
+            </View>
+            <Text style={styles.value}>{caption}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  label: {
+    width: 110,
+    fontSize: 13,
+    color: colors.text,
+    marginRight: 8,
+  },
+  track: {
+    flex: 1,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: colors.surfaceMuted,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 7,
+  },
+  value: {
+    minWidth: 64,
+    marginLeft: 8,
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    textAlign: 'right',
+  },
+});
+
+export default BarChart;
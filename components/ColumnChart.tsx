@@ -0,0 +1,94 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useThemedStyles } from '../hooks/useTheme';
+import { ThemeColors } from '../lib/theme';
+
+export type ColumnSegment = {
+  value: number;
+  color: string;
+};
+
+export type ColumnDatum = {
+  key: string;
+  label: string;
+  segments: ColumnSegment[]; // Stacked from the bottom up
+  caption?: string;          // Shown above the column, defaults to the stacked total
+};
+
+interface ColumnChartProps {
+  data: ColumnDatum[];
+  height?: number;
+  maxValue?: number;         // Defaults to the tallest column, e.g. pass 100 for percentages
+  onPressColumn?: (datum: ColumnDatum) => void;
+}
+
+const COLUMN_WIDTH = 28;
+
+// Vertical stacked columns that scroll sideways when there are many of them
+const ColumnChart: React.FC<ColumnChartProps> = ({ data, height = 140, maxValue, onPressColumn }) => {
+  const styles = useThemedStyles(createStyles);
+  const getTotal = (datum: ColumnDatum) => datum.segments.reduce((sum, segment) => sum + segment.value, 0);
+  const scale = maxValue ?? Math.max(1, ...data.map(getTotal));
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.content}>
+      {data.map(datum => {
+        const total = getTotal(datum);
+        const caption = datum.caption ?? String(total);
+        return (
+          <TouchableOpacity
+            key={datum.key}
+            style={styles.column}
+            onPress={onPressColumn ? () => onPressColumn(datum) : undefined}
+            disabled={!onPressColumn}
+            accessibilityLabel={`${datum.label}: ${caption}`}
+          >
+            <Text style={styles.caption}>{total > 0 ? caption : ''}</Text>
+            <View style={[styles.track, { height }]}>
+              {datum.segments.map((segment, index) => (
+                segment.value > 0 && (
+                  <View
+                    key={index}
+                    style={{ height: (segment.value / scale) * height, backgroundColor: segment.color }}
+                  />
+                )
+              ))}
+            </View>
+            <Text style={styles.label}>{datum.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  content: {
+    alignItems: 'flex-end',
+    paddingVertical: 4,
+  },
+  column: {
+    width: COLUMN_WIDTH,
+    marginHorizontal: 3,
+    alignItems: 'center',
+  },
+  caption: {
+    fontSize: 10,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  track: {
+    width: COLUMN_WIDTH - 8,
+    flexDirection: 'column-reverse',
+    borderTopLeftRadius: 4,
+    borderTopRightRadius: 4,
+    overflow: 'hidden',
+  },
+  label: {
+    fontSize: 10,
+    color: colors.textMuted,
+    marginTop: 4,
+  },
+});
+
+export default ColumnChart;
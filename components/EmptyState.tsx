@@ -1,5 +1,7 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import { useThemedStyles } from '../hooks/useTheme';
+import { ThemeColors } from '../lib/theme';
 
 interface EmptyStateProps {
   message?: string;
@@ -10,6 +12,7 @@ const EmptyState: React.FC<EmptyStateProps> = ({
   message = 'No launches found', 
   subtitle = 'Try adjusting your search or check back later' 
 }) => {
+  const styles = useThemedStyles(createStyles);
   return (
     <View style={styles.container}>
       <Text style={styles.icon}>🚀</Text>
@@ -19,7 +22,7 @@ const EmptyState: React.FC<EmptyStateProps> = ({
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
     justifyContent: 'center',
@@ -33,13 +36,13 @@ const styles = StyleSheet.create({
   message: {
     fontSize: 18,
     fontWeight: '600',
-    color: '#333',
+    color: colors.text,
     textAlign: 'center',
     marginBottom: 8,
   },
   subtitle: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
     lineHeight: 20,
   },
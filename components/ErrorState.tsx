@@ -1,29 +1,115 @@
-import React from 'react';
-import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Linking } from 'react-native';
+import { useThemedStyles } from '../hooks/useTheme';
+import { ApiError } from '../lib/errors';
+import { ThemeColors } from '../lib/theme';
 
 interface ErrorStateProps {
   message?: string;
+  error?: ApiError | null; // Picks copy and actions for the kind of failure
   onRetry?: () => void;
 }
 
-const ErrorState: React.FC<ErrorStateProps> = ({ 
-  message = 'Something went wrong', 
-  onRetry 
+type ErrorCopy = {
+  icon: string;
+  title: string;
+  canRetry: boolean;
+  openSettings?: boolean;
+};
+
+const getErrorCopy = (error: ApiError): ErrorCopy => {
+  switch (error.info.kind) {
+    case 'offline':
+      return { icon: '📡', title: "You're offline", canRetry: true, openSettings: true };
+    case 'timeout':
+      return { icon: '⏱️', title: 'SpaceX API is taking too long', canRetry: true };
+    case 'rate-limited':
+      return { icon: '🚦', title: 'Slow down a little', canRetry: true };
+    case 'parse':
+      return { icon: '🧩', title: 'Unexpected response', canRetry: true };
+    case 'http':
+      if (error.info.status === 404) {
+        return { icon: '🔭', title: 'Not found', canRetry: false };
+      }
+      if (error.info.status >= 500) {
+        return { icon: '🛠️', title: 'SpaceX API is having trouble', canRetry: true };
+      }
+      return { icon: '⚠️', title: 'Request failed', canRetry: true };
+    default:
+      return { icon: '⚠️', title: 'Something went wrong', canRetry: true };
+  }
+};
+
+const ErrorState: React.FC<ErrorStateProps> = ({
+  message = 'Something went wrong',
+  error,
+  onRetry
 }) => {
+  const styles = useThemedStyles(createStyles);
+  // Anchored to when this error arrived, not to each render
+  const retryAt = useMemo(() => (
+    error?.info.kind === 'rate-limited' && error.info.retryAfterMs
+      ? Date.now() + error.info.retryAfterMs
+      : null
+  ), [error]);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  // Hold the retry button until the server's Retry-After has passed
+  useEffect(() => {
+    if (retryAt === null) {
+      setSecondsLeft(0);
+      return;
+    }
+
+    const update = () => setSecondsLeft(Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)));
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  if (!error) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.icon}>⚠️</Text>
+        <Text style={styles.message}>{message}</Text>
+        {onRetry && (
+          <TouchableOpacity style={styles.retryButton} onPress={onRetry}>
+            <Text style={styles.retryText}>Try Again</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  const copy = getErrorCopy(error);
+  const waiting = secondsLeft > 0;
+
   return (
     <View style={styles.container}>
-      <Text style={styles.icon}>⚠️</Text>
-      <Text style={styles.message}>{message}</Text>
-      {onRetry && (
-        <TouchableOpacity style={styles.retryButton} onPress={onRetry}>
-          <Text style={styles.retryText}>Try Again</Text>
+      <Text style={styles.icon}>{copy.icon}</Text>
+      <Text style={styles.title}>{copy.title}</Text>
+      <Text style={styles.message}>{error.message}</Text>
+      {onRetry && copy.canRetry && (
+        <TouchableOpacity
+          style={[styles.retryButton, waiting && styles.retryButtonDisabled]}
+          onPress={onRetry}
+          disabled={waiting}
+        >
+          <Text style={styles.retryText}>
+            {waiting ? `Try Again in ${secondsLeft}s` : 'Try Again'}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {copy.openSettings && (
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => Linking.openSettings()}>
+          <Text style={styles.secondaryText}>Open Settings</Text>
         </TouchableOpacity>
       )}
     </View>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
     justifyContent: 'center',
@@ -34,24 +120,44 @@ const styles = StyleSheet.create({
     fontSize: 64,
     marginBottom: 16,
   },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
   message: {
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
     marginBottom: 24,
     lineHeight: 22,
   },
   retryButton: {
-    backgroundColor: '#007AFF',
+    backgroundColor: colors.primary,
     paddingHorizontal: 24,
     paddingVertical: 12,
     borderRadius: 8,
   },
+  retryButtonDisabled: {
+    backgroundColor: colors.unknown,
+  },
   retryText: {
-    color: '#fff',
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    marginTop: 12,
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+  },
+  secondaryText: {
+    color: colors.primary,
     fontSize: 16,
     fontWeight: '600',
   },
 });
 
-export default ErrorState; 
\ No newline at end of file
+export default ErrorState;
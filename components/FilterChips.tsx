@@ -0,0 +1,135 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useThemedStyles } from '../hooks/useTheme';
+import { EMPTY_FILTERS, OUTCOME_LABELS } from '../lib/filters';
+import { ThemeColors } from '../lib/theme';
+import { LaunchFilters, Launchpad, Rocket } from '../lib/types';
+
+interface FilterChipsProps {
+  filters: LaunchFilters;
+  launchpads: Launchpad[];
+  rockets?: Rocket[];
+  onChange: (filters: LaunchFilters) => void;
+}
+
+type Chip = {
+  key: string;
+  label: string;
+  remove: () => LaunchFilters;
+};
+
+const FilterChips: React.FC<FilterChipsProps> = ({ filters, launchpads, rockets = [], onChange }) => {
+  const styles = useThemedStyles(createStyles);
+  const getLaunchpadName = (id: string) => {
+    return launchpads.find(launchpad => launchpad.id === id)?.name ?? 'Launchpad';
+  };
+
+  const getRocketName = (id: string) => {
+    return rockets.find(rocket => rocket.id === id)?.name ?? 'Rocket';
+  };
+
+  const chips: Chip[] = [
+    ...filters.outcomes.map(outcome => ({
+      key: `outcome-${outcome}`,
+      label: OUTCOME_LABELS[outcome],
+      remove: () => ({ ...filters, outcomes: filters.outcomes.filter(o => o !== outcome) }),
+    })),
+    ...(filters.upcoming !== null ? [{
+      key: 'upcoming',
+      label: filters.upcoming ? 'Upcoming' : 'Past',
+      remove: () => ({ ...filters, upcoming: null }),
+    }] : []),
+    ...(filters.dateFrom ? [{
+      key: 'dateFrom',
+      label: `From ${filters.dateFrom}`,
+      remove: () => ({ ...filters, dateFrom: null }),
+    }] : []),
+    ...(filters.dateTo ? [{
+      key: 'dateTo',
+      label: `To ${filters.dateTo}`,
+      remove: () => ({ ...filters, dateTo: null }),
+    }] : []),
+    ...filters.launchpads.map(id => ({
+      key: `launchpad-${id}`,
+      label: getLaunchpadName(id),
+      remove: () => ({ ...filters, launchpads: filters.launchpads.filter(padId => padId !== id) }),
+    })),
+    ...filters.rockets.map(id => ({
+      key: `rocket-${id}`,
+      label: getRocketName(id),
+      remove: () => ({ ...filters, rockets: filters.rockets.filter(rocketId => rocketId !== id) }),
+    })),
+  ];
+
+  if (chips.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.content}
+      >
+        {chips.map(chip => (
+          <TouchableOpacity
+            key={chip.key}
+            style={styles.chip}
+            onPress={() => onChange(chip.remove())}
+            accessibilityLabel={`Remove filter ${chip.label}`}
+          >
+            <Text style={styles.chipText}>{chip.label}</Text>
+            <Text style={styles.chipRemove}>✕</Text>
+          </TouchableOpacity>
+        ))}
+        {chips.length > 1 && (
+          <TouchableOpacity style={styles.clearAll} onPress={() => onChange(EMPTY_FILTERS)}>
+            <Text style={styles.clearAllText}>Clear all</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  content: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.selected,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.primary,
+    fontWeight: '500',
+  },
+  chipRemove: {
+    fontSize: 12,
+    color: colors.primary,
+    marginLeft: 6,
+    fontWeight: 'bold',
+  },
+  clearAll: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  clearAllText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+});
+
+export default FilterChips;
@@ -0,0 +1,363 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { EMPTY_FILTERS, isValidDateInput, OUTCOME_LABELS } from '../lib/filters';
+import { ThemeColors } from '../lib/theme';
+import { LaunchFilters, LaunchOutcome, Launchpad } from '../lib/types';
+
+interface FilterSheetProps {
+  visible: boolean;
+  filters: LaunchFilters;
+  launchpads: Launchpad[];
+  onApply: (filters: LaunchFilters) => void;
+  onClose: () => void;
+}
+
+const OUTCOMES: LaunchOutcome[] = ['success', 'failure', 'unknown'];
+
+const TIMING_OPTIONS: { label: string; value: boolean | null }[] = [
+  { label: 'All', value: null },
+  { label: 'Upcoming', value: true },
+  { label: 'Past', value: false },
+];
+
+const FilterSheet: React.FC<FilterSheetProps> = ({
+  visible,
+  filters,
+  launchpads,
+  onApply,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  // Edits are kept local until the user taps Apply
+  const [draft, setDraft] = useState<LaunchFilters>(filters);
+  const [dateFrom, setDateFrom] = useState(filters.dateFrom ?? '');
+  const [dateTo, setDateTo] = useState(filters.dateTo ?? '');
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters);
+      setDateFrom(filters.dateFrom ?? '');
+      setDateTo(filters.dateTo ?? '');
+    }
+  }, [visible, filters]);
+
+  const dateFromValid = dateFrom === '' || isValidDateInput(dateFrom);
+  const dateToValid = dateTo === '' || isValidDateInput(dateTo);
+  const rangeValid = !dateFrom || !dateTo || !dateFromValid || !dateToValid || dateFrom <= dateTo;
+  const canApply = dateFromValid && dateToValid && rangeValid;
+
+  const toggleOutcome = (outcome: LaunchOutcome) => {
+    setDraft(prev => ({
+      ...prev,
+      outcomes: prev.outcomes.includes(outcome)
+        ? prev.outcomes.filter(o => o !== outcome)
+        : [...prev.outcomes, outcome],
+    }));
+  };
+
+  const toggleLaunchpad = (id: string) => {
+    setDraft(prev => ({
+      ...prev,
+      launchpads: prev.launchpads.includes(id)
+        ? prev.launchpads.filter(padId => padId !== id)
+        : [...prev.launchpads, id],
+    }));
+  };
+
+  const handleApply = () => {
+    if (!canApply) return;
+    onApply({
+      ...draft,
+      dateFrom: dateFrom || null,
+      dateTo: dateTo || null,
+    });
+  };
+
+  const handleClear = () => {
+    setDraft(EMPTY_FILTERS);
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Text style={styles.headerAction}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Filters</Text>
+          <TouchableOpacity onPress={handleClear} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Text style={styles.headerAction}>Clear</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.sectionTitle}>Outcome</Text>
+          <View style={styles.optionRow}>
+            {OUTCOMES.map(outcome => {
+              const selected = draft.outcomes.includes(outcome);
+              return (
+                <TouchableOpacity
+                  key={outcome}
+                  style={[styles.option, selected && styles.optionSelected]}
+                  onPress={() => toggleOutcome(outcome)}
+                >
+                  <Text style={[styles.optionText, selected && styles.optionTextSelected]}>
+                    {OUTCOME_LABELS[outcome]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.sectionTitle}>Launches</Text>
+          <View style={styles.optionRow}>
+            {TIMING_OPTIONS.map(option => {
+              const selected = draft.upcoming === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.option, selected && styles.optionSelected]}
+                  onPress={() => setDraft(prev => ({ ...prev, upcoming: option.value }))}
+                >
+                  <Text style={[styles.optionText, selected && styles.optionTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.sectionTitle}>Date range</Text>
+          <View style={styles.dateRow}>
+            <TextInput
+              style={[styles.dateInput, !dateFromValid && styles.dateInputInvalid]}
+              placeholder="From (YYYY-MM-DD)"
+              placeholderTextColor={colors.textMuted}
+              value={dateFrom}
+              onChangeText={setDateFrom}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="numbers-and-punctuation"
+              maxLength={10}
+            />
+            <TextInput
+              style={[styles.dateInput, !dateToValid && styles.dateInputInvalid]}
+              placeholder="To (YYYY-MM-DD)"
+              placeholderTextColor={colors.textMuted}
+              value={dateTo}
+              onChangeText={setDateTo}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="numbers-and-punctuation"
+              maxLength={10}
+            />
+          </View>
+          {!rangeValid && (
+            <Text style={styles.validationText}>The start date must be before the end date</Text>
+          )}
+
+          <Text style={styles.sectionTitle}>Launchpads</Text>
+          {launchpads.length === 0 && (
+            <Text style={styles.emptyText}>Launchpads are unavailable right now</Text>
+          )}
+          {launchpads.map(launchpad => {
+            const selected = draft.launchpads.includes(launchpad.id);
+            return (
+              <TouchableOpacity
+                key={launchpad.id}
+                style={styles.launchpadRow}
+                onPress={() => toggleLaunchpad(launchpad.id)}
+              >
+                <View style={styles.launchpadInfo}>
+                  <Text style={styles.launchpadName}>{launchpad.name}</Text>
+                  <Text style={styles.launchpadLocation}>
+                    {launchpad.locality}, {launchpad.region}
+                  </Text>
+                </View>
+                <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+                  {selected && <Text style={styles.checkmark}>✓</Text>}
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.applyButton, !canApply && styles.applyButtonDisabled]}
+            onPress={handleApply}
+            disabled={!canApply}
+          >
+            <Text style={styles.applyButtonText}>Apply Filters</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: colors.chrome,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.chromeText,
+  },
+  headerAction: {
+    fontSize: 16,
+    color: colors.primary,
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  option: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  optionTextSelected: {
+    color: colors.onPrimary,
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  dateInput: {
+    flex: 1,
+    height: 44,
+    paddingHorizontal: 12,
+    fontSize: 14,
+    color: colors.text,
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginRight: 8,
+  },
+  dateInputInvalid: {
+    borderColor: colors.failure,
+  },
+  validationText: {
+    fontSize: 12,
+    color: colors.failure,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  launchpadRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  launchpadInfo: {
+    flex: 1,
+  },
+  launchpadName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  launchpadLocation: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  checkmark: {
+    color: colors.onPrimary,
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  applyButton: {
+    backgroundColor: colors.primary,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  applyButtonDisabled: {
+    opacity: 0.5,
+  },
+  applyButtonText: {
+    color: colors.onPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default FilterSheet;
@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import MapView, { Marker } from 'react-native-maps';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { HomeLocation } from '../lib/homeLocation';
+import { ThemeColors } from '../lib/theme';
+
+interface HomeLocationPickerProps {
+  visible: boolean;
+  homeLocation: HomeLocation | null;
+  onSave: (home: HomeLocation) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const DEFAULT_REGION = {
+  latitude: 28.5,
+  longitude: -80.6,
+  latitudeDelta: 40,
+  longitudeDelta: 40,
+};
+
+const parseCoordinate = (value: string, limit: number) => {
+  const parsed = Number(value.trim());
+  if (value.trim() === '' || Number.isNaN(parsed) || Math.abs(parsed) > limit) return null;
+  return parsed;
+};
+
+const HomeLocationPicker: React.FC<HomeLocationPickerProps> = ({
+  visible,
+  homeLocation,
+  onSave,
+  onClear,
+  onClose,
+}) => {
+  const { colors, scheme, mapStyle } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  // Text inputs and the map marker edit the same draft
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setLatitude(homeLocation ? homeLocation.latitude.toFixed(4) : '');
+      setLongitude(homeLocation ? homeLocation.longitude.toFixed(4) : '');
+    }
+  }, [visible, homeLocation]);
+
+  const parsedLatitude = parseCoordinate(latitude, 90);
+  const parsedLongitude = parseCoordinate(longitude, 180);
+  const canSave = parsedLatitude !== null && parsedLongitude !== null;
+
+  const handlePick = (coordinate: { latitude: number; longitude: number }) => {
+    setLatitude(coordinate.latitude.toFixed(4));
+    setLongitude(coordinate.longitude.toFixed(4));
+  };
+
+  const handleSave = () => {
+    if (parsedLatitude === null || parsedLongitude === null) return;
+    onSave({ latitude: parsedLatitude, longitude: parsedLongitude });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Text style={styles.headerAction}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Home Location</Text>
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={!canSave}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={[styles.headerAction, !canSave && styles.headerActionDisabled]}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.hint}>
+            Tap the map or enter coordinates. This location is used for distances when GPS is unavailable.
+          </Text>
+
+          <MapView
+            style={styles.map}
+            customMapStyle={mapStyle}
+            userInterfaceStyle={scheme}
+            initialRegion={homeLocation ? { ...homeLocation, latitudeDelta: 10, longitudeDelta: 10 } : DEFAULT_REGION}
+            onPress={event => handlePick(event.nativeEvent.coordinate)}
+          >
+            {canSave && (
+              <Marker
+                coordinate={{ latitude: parsedLatitude, longitude: parsedLongitude }}
+                title="Home"
+                pinColor="blue"
+                draggable
+                onDragEnd={event => handlePick(event.nativeEvent.coordinate)}
+              />
+            )}
+          </MapView>
+
+          <View style={styles.inputRow}>
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Latitude</Text>
+              <TextInput
+                style={[styles.input, latitude !== '' && parsedLatitude === null && styles.inputInvalid]}
+                value={latitude}
+                onChangeText={setLatitude}
+                placeholder="28.5618"
+                placeholderTextColor={colors.textMuted}
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Longitude</Text>
+              <TextInput
+                style={[styles.input, longitude !== '' && parsedLongitude === null && styles.inputInvalid]}
+                value={longitude}
+                onChangeText={setLongitude}
+                placeholder="-80.5772"
+                placeholderTextColor={colors.textMuted}
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+          </View>
+
+          {homeLocation && (
+            <TouchableOpacity style={styles.clearButton} onPress={onClear}>
+              <Text style={styles.clearButtonText}>Remove Home Location</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: colors.chrome,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.chromeText,
+  },
+  headerAction: {
+    fontSize: 16,
+    color: colors.primary,
+  },
+  headerActionDisabled: {
+    color: colors.chromeMuted,
+  },
+  content: {
+    padding: 16,
+  },
+  hint: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  map: {
+    height: 300,
+    width: '100%',
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  inputRow: {
+    flexDirection: 'row',
+  },
+  inputGroup: {
+    flex: 1,
+    marginRight: 8,
+  },
+  label: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  input: {
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 12,
+    height: 44,
+    fontSize: 16,
+    color: colors.text,
+  },
+  inputInvalid: {
+    borderColor: colors.failure,
+  },
+  clearButton: {
+    marginTop: 24,
+    alignSelf: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  clearButtonText: {
+    fontSize: 14,
+    color: colors.failure,
+    fontWeight: '600',
+  },
+});
+
+export default HomeLocationPicker;
@@ -1,43 +1,80 @@
-import { useRouter } from 'expo-router';
+import * as Linking from 'expo-linking';
+import { useNavigation, useRouter } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import React, { useEffect } from 'react';
 import { Animated, Dimensions, StyleSheet, Text, View } from 'react-native';
+import { useThemedStyles } from '../hooks/useTheme';
+import { deepLinkPath, parseDeepLink } from '../lib/links';
+import { ThemeColors } from '../lib/theme';
 
 const { width, height } = Dimensions.get('window');
 
 export default function LandingPage() {
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
+  const navigation = useNavigation();
   const fadeAnim = new Animated.Value(0);
   const scaleAnim = new Animated.Value(0.8);
   const slideAnim = new Animated.Value(50);
 
   useEffect(() => {
     SplashScreen.hideAsync();
-    
-    // Animate in
-    Animated.parallel([
-      Animated.timing(fadeAnim, {
-        toValue: 1,
-        duration: 1000,
-        useNativeDriver: true,
-      }),
-      Animated.timing(scaleAnim, {
-        toValue: 1,
-        duration: 1000,
-        useNativeDriver: true,
-      }),
-      Animated.timing(slideAnim, {
-        toValue: 0,
-        duration: 1000,
-        useNativeDriver: true,
-      }),
-    ]).start();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
 
-    const timer = setTimeout(() => {
-      router.replace('index');
-    }, 3000);
+    // Only navigate while the splash is on top; a link may already have opened a screen above it
+    const leaveLanding = (linkedPath?: string) => {
+      const goHome = () => {
+        router.replace('/');
+        if (linkedPath) {
+          router.push(linkedPath);
+        }
+      };
+      if (navigation.isFocused()) {
+        goHome();
+      } else {
+        unsubscribe = navigation.addListener('focus', () => router.replace('/'));
+      }
+    };
 
-    return () => clearTimeout(timer);
+    // Opened from a launch or launchpad link: skip the splash and go straight there
+    Linking.getInitialURL().then(url => {
+      if (cancelled) return;
+
+      const target = parseDeepLink(url);
+      if (target) {
+        leaveLanding(deepLinkPath(target));
+        return;
+      }
+
+      // Animate in
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 1000,
+          useNativeDriver: true,
+        }),
+        Animated.timing(scaleAnim, {
+          toValue: 1,
+          duration: 1000,
+          useNativeDriver: true,
+        }),
+        Animated.timing(slideAnim, {
+          toValue: 0,
+          duration: 1000,
+          useNativeDriver: true,
+        }),
+      ]).start();
+
+      timer = setTimeout(() => leaveLanding(), 3000);
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      unsubscribe?.();
+    };
   }, []);
 
   return (
@@ -74,10 +111,10 @@ export default function LandingPage() {
   );
 }
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: '#000',
+    backgroundColor: colors.chrome,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -92,20 +129,20 @@ const styles = StyleSheet.create({
   title: {
     fontSize: 48,
     fontWeight: 'bold',
-    color: '#fff',
+    color: colors.chromeText,
     letterSpacing: 8,
     marginBottom: 10,
   },
   subtitle: {
     fontSize: 24,
     fontWeight: '300',
-    color: '#fff',
+    color: colors.chromeText,
     letterSpacing: 4,
     marginBottom: 20,
   },
   tagline: {
     fontSize: 16,
-    color: '#888',
+    color: colors.chromeMuted,
     letterSpacing: 2,
     textTransform: 'uppercase',
   },
@@ -116,7 +153,7 @@ const styles = StyleSheet.create({
   },
   footerText: {
     fontSize: 14,
-    color: '#666',
+    color: colors.chromeMuted,
     letterSpacing: 1,
   },
 }); 
\ No newline at end of file
@@ -1,28 +1,37 @@
 import React, { memo } from 'react';
-import { View, Text, Image, TouchableOpacity, StyleSheet } from 'react-native';
+import { Image } from 'expo-image';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useCountdown } from '../hooks/useCountdown';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { getLaunchImageSource } from '../lib/images';
+import { getLaunchStatus, STATUS_LABELS } from '../lib/stats';
+import { ThemeColors } from '../lib/theme';
 import { Launch } from '../lib/types';
 
 interface LaunchRowProps {
   launch: Launch;
   onPress: (launch: Launch) => void;
+  isFavorite?: boolean;
+  onToggleFavorite?: (launch: Launch) => void;
+  onLongPress?: (launch: Launch) => void;
+  selected?: boolean; // Only set while the list is selecting; swaps the star for a checkbox
 }
 
-const LaunchRow = memo<LaunchRowProps>(({ launch, onPress }) => {
+const LaunchRow = memo<LaunchRowProps>(({
+  launch,
+  onPress,
+  isFavorite = false,
+  onToggleFavorite,
+  onLongPress,
+  selected,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const handlePress = () => onPress(launch);
+  const selecting = selected !== undefined;
+  const countdown = useCountdown(launch.date_utc, Boolean(launch.upcoming), launch.date_precision);
 
-  const getStatusText = () => {
-    if (launch.upcoming) return 'Upcoming';
-    if (launch.success === true) return 'Successful';
-    if (launch.success === false) return 'Failed';
-    return 'Unknown';
-  };
-
-  const getStatusColor = () => {
-    if (launch.upcoming) return '#FFA500'; 
-    if (launch.success === true) return '#4CAF50'; 
-    if (launch.success === false) return '#F44336'; 
-    return '#9E9E9E'; 
-  };
+  const status = getLaunchStatus(launch);
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -33,44 +42,64 @@ const LaunchRow = memo<LaunchRowProps>(({ launch, onPress }) => {
     });
   };
 
-  const getImageSource = () => {
-    if (launch.links.flickr?.original?.[0]) {
-      return { uri: launch.links.flickr.original[0] };
-    }
-    if (launch.links.patch?.large) {
-      return { uri: launch.links.patch.large };
-    }
-    if (launch.links.patch?.small) {
-      return { uri: launch.links.patch.small };
-    }
-    // Return a placeholder or default image
-    return require('../assets/images/icon.png');
-  };
-
   return (
-    <TouchableOpacity style={styles.container} onPress={handlePress}>
-      <Image source={getImageSource()} style={styles.image} />
+    <TouchableOpacity
+      style={[styles.container, selected && styles.containerSelected]}
+      onPress={handlePress}
+      onLongPress={onLongPress ? () => onLongPress(launch) : undefined}
+      accessibilityState={selecting ? { selected } : undefined}
+    >
+      <Image
+        source={getLaunchImageSource(launch)}
+        style={styles.image}
+        contentFit="cover"
+        cachePolicy="memory-disk"
+        recyclingKey={launch.id}
+      />
       <View style={styles.content}>
         <Text style={styles.name} numberOfLines={2}>
           {launch.name}
         </Text>
         <Text style={styles.date}>{formatDate(launch.date_utc)}</Text>
         <View style={styles.statusContainer}>
-          <View style={[styles.statusDot, { backgroundColor: getStatusColor() }]} />
-          <Text style={styles.status}>{getStatusText()}</Text>
+          <View style={[styles.statusDot, { backgroundColor: colors[status] }]} />
+          <Text style={styles.status}>{STATUS_LABELS[status]}</Text>
+          {countdown && <Text style={styles.countdown}>{countdown}</Text>}
         </View>
       </View>
+      {selecting && (
+        <View style={styles.selectButton}>
+          <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+            {selected && <Text style={styles.checkmark}>✓</Text>}
+          </View>
+        </View>
+      )}
+      {!selecting && onToggleFavorite && (
+        <TouchableOpacity
+          style={styles.favoriteButton}
+          onPress={() => onToggleFavorite(launch)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessibilityLabel={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+        >
+          <Text style={[styles.favoriteIcon, isFavorite && styles.favoriteIconActive]}>
+            {isFavorite ? '★' : '☆'}
+          </Text>
+        </TouchableOpacity>
+      )}
     </TouchableOpacity>
   );
 });
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
     flexDirection: 'row',
     padding: 16,
-    backgroundColor: '#fff',
+    backgroundColor: colors.surface,
     borderBottomWidth: 1,
-    borderBottomColor: '#E0E0E0',
+    borderBottomColor: colors.border,
+  },
+  containerSelected: {
+    backgroundColor: colors.selected,
   },
   image: {
     width: 60,
@@ -85,12 +114,12 @@ const styles = StyleSheet.create({
   name: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#333',
+    color: colors.text,
     marginBottom: 4,
   },
   date: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
     marginBottom: 8,
   },
   statusContainer: {
@@ -105,10 +134,50 @@ const styles = StyleSheet.create({
   },
   status: {
     fontSize: 12,
-    color: '#666',
+    color: colors.textSecondary,
     textTransform: 'uppercase',
     fontWeight: '500',
   },
+  countdown: {
+    fontSize: 12,
+    color: colors.upcoming,
+    fontWeight: '600',
+    marginLeft: 8,
+    fontVariant: ['tabular-nums'],
+  },
+  favoriteButton: {
+    justifyContent: 'center',
+    paddingLeft: 12,
+  },
+  favoriteIcon: {
+    fontSize: 24,
+    color: colors.textMuted,
+  },
+  favoriteIconActive: {
+    color: colors.favorite,
+  },
+  selectButton: {
+    justifyContent: 'center',
+    paddingLeft: 12,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: colors.textMuted,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  checkmark: {
+    fontSize: 14,
+    color: colors.onPrimary,
+    fontWeight: 'bold',
+  },
 });
 
 LaunchRow.displayName = 'LaunchRow';
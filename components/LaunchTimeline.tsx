@@ -0,0 +1,227 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import {
+  RefreshControl,
+  SectionList,
+  SectionListData,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  ViewToken,
+} from 'react-native';
+import { useAllLaunches } from '../hooks/useAllLaunches';
+import { useThemedStyles } from '../hooks/useTheme';
+import { ThemeColors } from '../lib/theme';
+import {
+  buildTimelineSections,
+  createTimelineItemLayout,
+  findNextUpcoming,
+  getTimelineSort,
+  getTimelineYears,
+  TimelineSection,
+} from '../lib/timeline';
+import { OutcomeCounts } from '../lib/stats';
+import { Launch, LaunchFilters, LaunchSort } from '../lib/types';
+import EmptyState from './EmptyState';
+import ErrorState from './ErrorState';
+import LoadingState from './LoadingState';
+import YearScrubber from './YearScrubber';
+
+interface LaunchTimelineProps {
+  filters: LaunchFilters;
+  query: string;
+  sort: LaunchSort;
+  renderItem: (info: { item: Launch }) => React.ReactElement;
+  emptyMessage?: string;
+  emptySubtitle?: string;
+}
+
+// Fixed heights keep getItemLayout exact, so scrubbing can jump anywhere
+const ROW_HEIGHT = 92;
+const HEADER_HEIGHT = 44;
+const YEAR_HEADER_HEIGHT = 40;
+// Gutter on the right that keeps the scrubber off the rows
+const SCRUBBER_GUTTER = 36;
+
+const formatCounts = (stats: OutcomeCounts) => {
+  const count = `${stats.total} ${stats.total === 1 ? 'launch' : 'launches'}`;
+  return stats.successRate === null ? count : `${count} · ${Math.round(stats.successRate * 100)}% success`;
+};
+
+type Section = SectionListData<Launch, TimelineSection>;
+
+// Every matching launch grouped by month, with a year scrubber on the side
+const LaunchTimeline: React.FC<LaunchTimelineProps> = ({
+  filters,
+  query,
+  sort,
+  renderItem,
+  emptyMessage,
+  emptySubtitle,
+}) => {
+  const styles = useThemedStyles(createStyles);
+  const listRef = useRef<SectionList<Launch, TimelineSection>>(null);
+  const [activeYear, setActiveYear] = useState<number | null>(null);
+  const { launches, loading, error, refetch } = useAllLaunches(filters, getTimelineSort(sort), query);
+
+  const sections = useMemo(() => buildTimelineSections(launches), [launches]);
+  const years = useMemo(() => getTimelineYears(sections), [sections]);
+  const nextUpcoming = useMemo(() => findNextUpcoming(sections), [sections]);
+  const getItemLayout = useMemo(() => createTimelineItemLayout(sections, {
+    row: ROW_HEIGHT,
+    header: HEADER_HEIGHT,
+    yearHeader: YEAR_HEADER_HEIGHT,
+  }), [sections]);
+
+  // scrollToLocation counts the section header as item 0, so launches start at 1
+  const jumpToYear = useCallback((year: number) => {
+    const entry = years.find(candidate => candidate.year === year);
+    if (!entry) return;
+    listRef.current?.scrollToLocation({ sectionIndex: entry.sectionIndex, itemIndex: 0, animated: false });
+  }, [years]);
+
+  const jumpToNextUpcoming = useCallback(() => {
+    if (!nextUpcoming) return;
+    listRef.current?.scrollToLocation({
+      sectionIndex: nextUpcoming.sectionIndex,
+      itemIndex: nextUpcoming.itemIndex + 1,
+      animated: true,
+    });
+  }, [nextUpcoming]);
+
+  const handleViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    const first = viewableItems.find(token => token.section);
+    if (first) setActiveYear((first.section as TimelineSection).year);
+  }).current;
+
+  const renderSectionHeader = useCallback(({ section }: { section: Section }) => (
+    <View>
+      {section.yearStats && (
+        <View style={styles.yearHeader}>
+          <Text style={styles.yearTitle}>{section.year}</Text>
+          <Text style={styles.yearCounts}>{formatCounts(section.yearStats)}</Text>
+        </View>
+      )}
+      <View style={styles.monthHeader}>
+        <Text style={styles.monthTitle}>{section.title}</Text>
+        <Text style={styles.monthCounts}>{formatCounts(section.stats)}</Text>
+      </View>
+    </View>
+  ), [styles]);
+
+  if (loading && launches.length === 0) {
+    return <LoadingState />;
+  }
+
+  if (error && launches.length === 0) {
+    return <ErrorState error={error} onRetry={refetch} />;
+  }
+
+  return (
+    <View style={styles.container}>
+      <SectionList
+        ref={listRef}
+        sections={sections}
+        renderItem={renderItem}
+        renderSectionHeader={renderSectionHeader}
+        keyExtractor={item => item.id}
+        getItemLayout={getItemLayout}
+        contentContainerStyle={years.length > 1 && styles.scrubberGutter}
+        stickySectionHeadersEnabled
+        initialNumToRender={10}
+        maxToRenderPerBatch={10}
+        windowSize={10}
+        onViewableItemsChanged={handleViewableItemsChanged}
+        refreshControl={<RefreshControl refreshing={loading && launches.length > 0} onRefresh={refetch} />}
+        ListEmptyComponent={
+          <EmptyState
+            message={emptyMessage ?? 'No launches available'}
+            subtitle={emptySubtitle ?? 'Check back later for updates'}
+          />
+        }
+      />
+
+      <YearScrubber
+        years={years.map(entry => entry.year)}
+        activeYear={activeYear}
+        onSelectYear={jumpToYear}
+      />
+
+      {nextUpcoming && (
+        <TouchableOpacity
+          style={styles.nextButton}
+          onPress={jumpToNextUpcoming}
+          accessibilityLabel="Jump to next upcoming launch"
+        >
+          <Text style={styles.nextButtonText}>⏭ Next launch</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrubberGutter: {
+    paddingRight: SCRUBBER_GUTTER,
+  },
+  yearHeader: {
+    height: YEAR_HEADER_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    backgroundColor: colors.chrome,
+  },
+  yearTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.chromeText,
+  },
+  yearCounts: {
+    fontSize: 13,
+    color: colors.chromeMuted,
+  },
+  monthHeader: {
+    height: HEADER_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    backgroundColor: colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  monthTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  monthCounts: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  nextButton: {
+    position: 'absolute',
+    left: 16,
+    bottom: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: colors.primary,
+    shadowColor: colors.shadow,
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  nextButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.onPrimary,
+  },
+});
+
+export default LaunchTimeline;
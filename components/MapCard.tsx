@@ -1,8 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { Alert, Linking, Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import MapView, { Marker } from 'react-native-maps';
+import HomeLocationPicker from './HomeLocationPicker';
+import { useDistanceUnit } from '../hooks/useDistanceUnit';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
 import { useUserLocation } from '../hooks/useUserLocation';
 import { calculateDistance, formatDistance } from '../lib/geo';
+import { ThemeColors } from '../lib/theme';
 import { Launchpad } from '../lib/types';
 
 interface MapCardProps {
@@ -10,9 +14,22 @@ interface MapCardProps {
 }
 
 const MapCard: React.FC<MapCardProps> = ({ launchpad }) => {
-  const { location, permissionStatus, requestPermission } = useUserLocation();
+  const { colors, scheme, mapStyle } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const {
+    resolvedLocation: location,
+    locationSource,
+    homeLocation,
+    permissionStatus,
+    requestPermission,
+    getCurrentLocation,
+    setHomeLocation,
+    clearHomeLocation,
+  } = useUserLocation();
+  const { unit } = useDistanceUnit();
   const [distance, setDistance] = useState<number | null>(null);
   const [mapError, setMapError] = useState<string | null>(null);
+  const [pickerVisible, setPickerVisible] = useState(false);
 
 
   useEffect(() => {
@@ -24,6 +41,12 @@ const MapCard: React.FC<MapCardProps> = ({ launchpad }) => {
     });
   }, [launchpad]);
 
+  useEffect(() => {
+    if (permissionStatus === 'granted') {
+      getCurrentLocation();
+    }
+  }, [permissionStatus, getCurrentLocation]);
+
   useEffect(() => {
     if (location && launchpad) {
       const calculatedDistance = calculateDistance(
@@ -33,6 +56,8 @@ const MapCard: React.FC<MapCardProps> = ({ launchpad }) => {
         launchpad.longitude
       );
       setDistance(calculatedDistance);
+    } else {
+      setDistance(null);
     }
   }, [location, launchpad]);
 
@@ -93,25 +118,44 @@ const MapCard: React.FC<MapCardProps> = ({ launchpad }) => {
   };
 
   const renderLocationButton = () => {
+    // Without GPS, a saved home location stands in for distance
+    const homeButton = locationSource !== 'gps' && (
+      <TouchableOpacity style={styles.homeButton} onPress={() => setPickerVisible(true)}>
+        <Text style={styles.homeButtonText}>
+          {homeLocation ? 'Change Home Location' : 'Set Home Location'}
+        </Text>
+      </TouchableOpacity>
+    );
+
     if (permissionStatus === 'unasked') {
       return (
-        <TouchableOpacity style={styles.locationButton} onPress={handleLocationPermission}>
-          <Text style={styles.locationButtonText}>Enable Location</Text>
-        </TouchableOpacity>
+        <View style={styles.locationActions}>
+          <TouchableOpacity style={styles.locationButton} onPress={handleLocationPermission}>
+            <Text style={styles.locationButtonText}>Enable Location</Text>
+          </TouchableOpacity>
+          {homeButton}
+        </View>
       );
     }
 
     if (permissionStatus === 'denied') {
       return (
-        <TouchableOpacity 
-          style={styles.locationButton} 
-          onPress={() => Linking.openSettings()}
-        >
-          <Text style={styles.locationButtonText}>Open Settings</Text>
-        </TouchableOpacity>
+        <View style={styles.locationActions}>
+          <TouchableOpacity 
+            style={styles.locationButton} 
+            onPress={() => Linking.openSettings()}
+          >
+            <Text style={styles.locationButtonText}>Open Settings</Text>
+          </TouchableOpacity>
+          {homeButton}
+        </View>
       );
     }
 
+    if (homeButton) {
+      return <View style={styles.locationActions}>{homeButton}</View>;
+    }
+
     return null;
   };
 
@@ -148,8 +192,10 @@ const MapCard: React.FC<MapCardProps> = ({ launchpad }) => {
           showsCompass={true}
           showsScale={true}
           loadingEnabled={true}
-          loadingIndicatorColor="#007AFF"
-          loadingBackgroundColor="#ffffff"
+          loadingIndicatorColor={colors.primary}
+          loadingBackgroundColor={colors.surface}
+          customMapStyle={mapStyle}
+          userInterfaceStyle={scheme}
           onMapReady={() => console.log('Map loaded successfully')}
         >
          
@@ -170,7 +216,7 @@ const MapCard: React.FC<MapCardProps> = ({ launchpad }) => {
                 latitude: location.latitude,
                 longitude: location.longitude,
               }}
-              title="Your Location"
+              title={locationSource === 'home' ? 'Home' : 'Your Location'}
               pinColor="blue"
             />
           )}
@@ -196,8 +242,10 @@ const MapCard: React.FC<MapCardProps> = ({ launchpad }) => {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Launchpad Location</Text>
-        {distance && (
-          <Text style={styles.distance}>{formatDistance(distance)} away</Text>
+        {distance !== null && (
+          <Text style={styles.distance}>
+            {formatDistance(distance, unit)} away{locationSource === 'home' ? ' from home' : ''}
+          </Text>
         )}
       </View>
 
@@ -217,18 +265,32 @@ const MapCard: React.FC<MapCardProps> = ({ launchpad }) => {
       </View>
 
       {renderLocationButton()}
+
+      <HomeLocationPicker
+        visible={pickerVisible}
+        homeLocation={homeLocation}
+        onSave={home => {
+          setHomeLocation(home);
+          setPickerVisible(false);
+        }}
+        onClear={() => {
+          clearHomeLocation();
+          setPickerVisible(false);
+        }}
+        onClose={() => setPickerVisible(false)}
+      />
     </View>
   );
 };
 
-const styles = StyleSheet.create({
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
   container: {
-    backgroundColor: '#fff',
+    backgroundColor: colors.surface,
     borderRadius: 12,
     margin: 16,
     overflow: 'hidden',
     elevation: 3,
-    shadowColor: '#000',
+    shadowColor: colors.shadow,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.1,
     shadowRadius: 4,
@@ -236,16 +298,16 @@ const styles = StyleSheet.create({
   header: {
     padding: 16,
     borderBottomWidth: 1,
-    borderBottomColor: '#E0E0E0',
+    borderBottomColor: colors.border,
   },
   title: {
     fontSize: 18,
     fontWeight: '600',
-    color: '#333',
+    color: colors.text,
   },
   distance: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
     marginTop: 4,
   },
   map: {
@@ -260,35 +322,35 @@ const styles = StyleSheet.create({
     position: 'absolute',
     top: 10,
     left: 10,
-    backgroundColor: 'rgba(0,0,0,0.5)',
+    backgroundColor: colors.overlay,
     padding: 5,
     borderRadius: 5,
   },
   debugText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 12,
   },
   mapErrorContainer: {
     height: 250,
-    backgroundColor: '#f8f9fa',
+    backgroundColor: colors.surfaceMuted,
     justifyContent: 'center',
     alignItems: 'center',
     padding: 20,
   },
   mapErrorText: {
     fontSize: 16,
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
     marginBottom: 16,
   },
   retryButton: {
-    backgroundColor: '#007AFF',
+    backgroundColor: colors.primary,
     paddingHorizontal: 20,
     paddingVertical: 10,
     borderRadius: 8,
   },
   retryButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 14,
     fontWeight: '600',
   },
@@ -304,58 +366,74 @@ const styles = StyleSheet.create({
   launchpadName: {
     fontSize: 16,
     fontWeight: '600',
-    color: '#333',
+    color: colors.text,
   },
   launchpadLocation: {
     fontSize: 14,
-    color: '#666',
+    color: colors.textSecondary,
     marginTop: 2,
   },
   directionsButton: {
-    backgroundColor: '#007AFF',
+    backgroundColor: colors.primary,
     paddingHorizontal: 20,
     paddingVertical: 10,
     borderRadius: 8,
   },
   directionsButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 14,
     fontWeight: '600',
   },
+  locationActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+  },
   locationButton: {
-    backgroundColor: '#34C759',
+    backgroundColor: colors.success,
     paddingHorizontal: 20,
     paddingVertical: 10,
     borderRadius: 8,
     margin: 16,
     alignSelf: 'center',
   },
+  homeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    margin: 16,
+  },
+  homeButtonText: {
+    color: colors.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   locationButtonText: {
-    color: '#fff',
+    color: colors.onPrimary,
     fontSize: 14,
     fontWeight: '600',
   },
   mapFallbackContainer: {
     height: 250,
-    backgroundColor: '#f8f9fa',
+    backgroundColor: colors.surfaceMuted,
     justifyContent: 'center',
     alignItems: 'center',
     padding: 20,
   },
   mapFallbackText: {
     fontSize: 18,
-    color: '#666',
+    color: colors.textSecondary,
     textAlign: 'center',
     marginBottom: 10,
   },
   coordinatesText: {
     fontSize: 14,
-    color: '#333',
+    color: colors.text,
     marginBottom: 5,
   },
   fallbackInfo: {
     fontSize: 12,
-    color: '#999',
+    color: colors.textMuted,
     textAlign: 'center',
   },
 });
@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Linking,
+  Modal,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useWindowDimensions,
+  View,
+} from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { logger } from '../lib/logger';
+import { saveImageToLibrary, shareImage } from '../lib/media';
+import ZoomableImage from './ZoomableImage';
+
+interface PhotoGalleryProps {
+  visible: boolean;
+  photos: string[];
+  initialIndex?: number;
+  title?: string; // Used when sharing
+  onClose: () => void;
+}
+
+// Past this many photos the dots stop fitting; the counter is enough
+const MAX_DOTS = 12;
+
+type PendingAction = 'save' | 'share' | null;
+
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({
+  visible,
+  photos,
+  initialIndex = 0,
+  title,
+  onClose,
+}) => {
+  const { width, height } = useWindowDimensions();
+  const insets = useSafeAreaInsets();
+  const [index, setIndex] = useState(initialIndex);
+  const [zoomed, setZoomed] = useState(false);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+
+  // Every time the gallery opens it starts on the photo that was tapped
+  useEffect(() => {
+    if (visible) {
+      setIndex(initialIndex);
+      setZoomed(false);
+    }
+  }, [visible, initialIndex]);
+
+  const currentPhoto = photos[index];
+
+  const handleScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const page = Math.round(event.nativeEvent.contentOffset.x / width);
+    setIndex(Math.min(photos.length - 1, Math.max(0, page)));
+  };
+
+  const handleSave = async () => {
+    if (!currentPhoto) return;
+    setPendingAction('save');
+    try {
+      const saved = await saveImageToLibrary(currentPhoto);
+      if (saved) {
+        Alert.alert('Saved', 'The photo was saved to your library.');
+      } else {
+        Alert.alert(
+          'Photo access needed',
+          'Allow access to your photo library in Settings to save launch photos.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Open Settings', onPress: () => Linking.openSettings() },
+          ]
+        );
+      }
+    } catch (err) {
+      logger.error('Failed to save photo', err);
+      Alert.alert('Could not save photo', 'Please check your connection and try again.');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!currentPhoto) return;
+    setPendingAction('share');
+    try {
+      await shareImage(currentPhoto, title);
+    } catch (err) {
+      logger.error('Failed to share photo', err);
+      Alert.alert('Could not share photo', 'Please check your connection and try again.');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const renderItem = useCallback(({ item }: { item: string }) => (
+    <View style={{ width, height }}>
+      <ZoomableImage uri={item} width={width} height={height} onZoomChange={setZoomed} />
+    </View>
+  ), [width, height]);
+
+  const getItemLayout = useCallback((_data: unknown, itemIndex: number) => ({
+    length: width,
+    offset: width * itemIndex,
+    index: itemIndex,
+  }), [width]);
+
+  return (
+    <Modal visible={visible} animationType="fade" onRequestClose={onClose} statusBarTranslucent>
+      <GestureHandlerRootView style={styles.container}>
+        <FlatList
+          data={photos}
+          renderItem={renderItem}
+          keyExtractor={item => item}
+          horizontal
+          pagingEnabled
+          scrollEnabled={!zoomed}
+          showsHorizontalScrollIndicator={false}
+          initialScrollIndex={Math.min(initialIndex, Math.max(0, photos.length - 1))}
+          getItemLayout={getItemLayout}
+          onMomentumScrollEnd={handleScrollEnd}
+          windowSize={3}
+        />
+
+        <View style={[styles.header, { paddingTop: insets.top + 8 }]}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={onClose}
+            accessibilityLabel="Close gallery"
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={styles.closeText}>✕</Text>
+          </TouchableOpacity>
+          <Text style={styles.counter}>
+            {photos.length > 0 ? `${index + 1} / ${photos.length}` : ''}
+          </Text>
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={handleSave}
+              disabled={pendingAction !== null}
+              accessibilityLabel="Save photo"
+            >
+              {pendingAction === 'save'
+                ? <ActivityIndicator size="small" color="#fff" />
+                : <Text style={styles.actionText}>Save</Text>}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={handleShare}
+              disabled={pendingAction !== null}
+              accessibilityLabel="Share photo"
+            >
+              {pendingAction === 'share'
+                ? <ActivityIndicator size="small" color="#fff" />
+                : <Text style={styles.actionText}>Share</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {photos.length > 1 && photos.length <= MAX_DOTS && (
+          <View style={[styles.dots, { bottom: insets.bottom + 24 }]} pointerEvents="none">
+            {photos.map((photo, dotIndex) => (
+              <View key={photo} style={[styles.dot, dotIndex === index && styles.dotActive]} />
+            ))}
+          </View>
+        )}
+      </GestureHandlerRootView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  headerButton: {
+    minWidth: 44,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  closeText: {
+    fontSize: 20,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  counter: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+  actionText: {
+    fontSize: 16,
+    color: '#fff',
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  dots: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    marginHorizontal: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  dotActive: {
+    backgroundColor: '#fff',
+  },
+});
+
+export default PhotoGallery;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Linking, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import { useReminders } from '../hooks/useReminders';
+import { useTheme, useThemedStyles } from '../hooks/useTheme';
+import { canScheduleReminders, REMINDER_OPTIONS } from '../lib/reminders';
+import { ThemeColors } from '../lib/theme';
+import { Launch } from '../lib/types';
+
+interface ReminderSettingsProps {
+  launch: Launch;
+}
+
+const ReminderSettings: React.FC<ReminderSettingsProps> = ({ launch }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { offsets, permissionDenied, error, toggleOffset } = useReminders(launch);
+
+  if (!canScheduleReminders(launch)) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.pendingText}>
+          Reminders become available once a liftoff time is announced.
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {REMINDER_OPTIONS.map(option => (
+        <View key={option.value} style={styles.row}>
+          <Text style={styles.label}>{option.label}</Text>
+          <Switch
+            value={offsets.includes(option.value)}
+            onValueChange={() => toggleOffset(option.value)}
+            trackColor={{ true: colors.primary, false: colors.border }}
+          />
+        </View>
+      ))}
+
+      {permissionDenied && (
+        <TouchableOpacity style={styles.notice} onPress={() => Linking.openSettings()}>
+          <Text style={styles.noticeText}>
+            Notifications are turned off for this app. Tap to open Settings.
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  label: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  notice: {
+    paddingVertical: 12,
+  },
+  pendingText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    paddingVertical: 12,
+  },
+  noticeText: {
+    fontSize: 14,
+    color: colors.failure,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.failure,
+    paddingVertical: 12,
+  },
+});
+
+export default ReminderSettings;
@@ -0,0 +1,34 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React from 'react';
+import { StyleProp, StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+import { useTheme } from '../hooks/useTheme';
+
+interface SettingsButtonProps {
+  style?: StyleProp<ViewStyle>;
+}
+
+// Header gear that opens the settings screen
+const SettingsButton: React.FC<SettingsButtonProps> = ({ style }) => {
+  const router = useRouter();
+  const { colors } = useTheme();
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, style]}
+      onPress={() => router.push('/settings')}
+      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      accessibilityLabel="Settings"
+    >
+      <Ionicons name="settings-outline" color={colors.chromeText} size={22} />
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    marginHorizontal: 16,
+  },
+});
+
+export default SettingsButton;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { useThemedStyles } from '../hooks/useTheme';
+import { SORT_OPTIONS } from '../lib/sort';
+import { ThemeColors } from '../lib/theme';
+import { LaunchSort } from '../lib/types';
+
+interface SortSelectorProps {
+  value: LaunchSort;
+  onChange: (sort: LaunchSort) => void;
+}
+
+const SortSelector: React.FC<SortSelectorProps> = ({ value, onChange }) => {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      {SORT_OPTIONS.map(option => {
+        const selected = option.value === value;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.option, selected && styles.optionSelected]}
+            onPress={() => !selected && onChange(option.value)}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+          >
+            <Text style={[styles.optionText, selected && styles.optionTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    paddingTop: 12,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: colors.chromeBorder,
+    marginRight: 8,
+  },
+  optionSelected: {
+    backgroundColor: colors.chromeText,
+    borderColor: colors.chromeText,
+  },
+  optionText: {
+    fontSize: 13,
+    color: colors.chromeMuted,
+  },
+  optionTextSelected: {
+    color: colors.chrome,
+    fontWeight: '600',
+  },
+});
+
+export default SortSelector;
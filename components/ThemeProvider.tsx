@@ -0,0 +1,41 @@
+import { DarkTheme, DefaultTheme, ThemeProvider as NavigationThemeProvider } from '@react-navigation/native';
+import React, { useMemo } from 'react';
+import { useColorScheme } from 'react-native';
+import { ThemeContext, useThemeMode } from '../hooks/useTheme';
+import { resolveColorScheme, themes } from '../lib/theme';
+
+interface ThemeProviderProps {
+  children: React.ReactNode;
+}
+
+// Resolves the chosen mode against the OS setting and shares it with screens and navigators
+const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
+  const { mode } = useThemeMode();
+  const systemScheme = useColorScheme();
+  const theme = themes[resolveColorScheme(mode, systemScheme)];
+
+  const navigationTheme = useMemo(() => {
+    const base = theme.scheme === 'dark' ? DarkTheme : DefaultTheme;
+    return {
+      ...base,
+      colors: {
+        ...base.colors,
+        primary: theme.colors.primary,
+        background: theme.colors.background,
+        card: theme.colors.chrome,
+        text: theme.colors.chromeText,
+        border: theme.colors.chromeBorder,
+      },
+    };
+  }, [theme]);
+
+  return (
+    <ThemeContext.Provider value={theme}>
+      <NavigationThemeProvider value={navigationTheme}>
+        {children}
+      </NavigationThemeProvider>
+    </ThemeContext.Provider>
+  );
+};
+
+export default ThemeProvider;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useThemedStyles, useThemeMode } from '../hooks/useTheme';
+import { THEME_MODE_OPTIONS, ThemeColors } from '../lib/theme';
+
+const ThemeToggle: React.FC = () => {
+  const styles = useThemedStyles(createStyles);
+  const { mode, setMode } = useThemeMode();
+
+  return (
+    <View style={styles.container}>
+      {THEME_MODE_OPTIONS.map(option => {
+        const selected = option.value === mode;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.option, selected && styles.optionSelected]}
+            onPress={() => setMode(option.value)}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+          >
+            <Text style={[styles.optionText, selected && styles.optionTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    backgroundColor: colors.surfaceMuted,
+    borderRadius: 10,
+    padding: 3,
+  },
+  option: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  optionSelected: {
+    backgroundColor: colors.primary,
+  },
+  optionText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  optionTextSelected: {
+    color: colors.onPrimary,
+    fontWeight: '600',
+  },
+});
+
+export default ThemeToggle;
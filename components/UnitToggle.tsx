@@ -0,0 +1,64 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useDistanceUnit } from '../hooks/useDistanceUnit';
+import { useThemedStyles } from '../hooks/useTheme';
+import { ThemeColors } from '../lib/theme';
+import { DistanceUnit } from '../lib/units';
+
+const UNIT_OPTIONS: { value: DistanceUnit; label: string }[] = [
+  { value: 'km', label: 'km' },
+  { value: 'mi', label: 'miles' },
+];
+
+const UnitToggle: React.FC = () => {
+  const styles = useThemedStyles(createStyles);
+  const { unit, setUnit } = useDistanceUnit();
+
+  return (
+    <View style={styles.container}>
+      {UNIT_OPTIONS.map(option => {
+        const selected = option.value === unit;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.option, selected && styles.optionSelected]}
+            onPress={() => setUnit(option.value)}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+          >
+            <Text style={[styles.optionText, selected && styles.optionTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: colors.chromeBorder,
+    borderRadius: 14,
+    overflow: 'hidden',
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  optionSelected: {
+    backgroundColor: colors.chromeText,
+  },
+  optionText: {
+    fontSize: 13,
+    color: colors.chromeMuted,
+  },
+  optionTextSelected: {
+    color: colors.chrome,
+    fontWeight: '600',
+  },
+});
+
+export default UnitToggle;
@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import { GestureResponderEvent, StyleSheet, Text, View } from 'react-native';
+import { useThemedStyles } from '../hooks/useTheme';
+import { ThemeColors } from '../lib/theme';
+
+interface YearScrubberProps {
+  years: number[];
+  activeYear?: number | null;
+  onSelectYear: (year: number) => void;
+}
+
+// Vertical strip of years; tap or drag along it to jump
+const YearScrubber: React.FC<YearScrubberProps> = ({ years, activeYear = null, onSelectYear }) => {
+  const styles = useThemedStyles(createStyles);
+  const containerRef = useRef<View>(null);
+  const frameRef = useRef({ top: 0, height: 0 });
+  const lastYearRef = useRef<number | null>(null);
+  const [dragYear, setDragYear] = useState<number | null>(null);
+
+  const measure = () => {
+    containerRef.current?.measureInWindow((_x, y, _width, height) => {
+      frameRef.current = { top: y, height };
+    });
+  };
+
+  const selectAt = (event: GestureResponderEvent) => {
+    const { top, height } = frameRef.current;
+    if (height <= 0 || years.length === 0) return;
+
+    const ratio = (event.nativeEvent.pageY - top) / height;
+    const index = Math.min(years.length - 1, Math.max(0, Math.floor(ratio * years.length)));
+    const year = years[index];
+
+    setDragYear(year);
+    // Dragging fires many moves per year; only jump when the year changes
+    if (year !== lastYearRef.current) {
+      lastYearRef.current = year;
+      onSelectYear(year);
+    }
+  };
+
+  const endDrag = () => {
+    lastYearRef.current = null;
+    setDragYear(null);
+  };
+
+  if (years.length < 2) return null;
+
+  const highlighted = dragYear ?? activeYear;
+
+  return (
+    <View
+      ref={containerRef}
+      style={styles.container}
+      onLayout={measure}
+      onStartShouldSetResponder={() => true}
+      onMoveShouldSetResponder={() => true}
+      onResponderTerminationRequest={() => false}
+      onResponderGrant={selectAt}
+      onResponderMove={selectAt}
+      onResponderRelease={endDrag}
+      onResponderTerminate={endDrag}
+      accessibilityLabel="Jump to year"
+    >
+      {years.map(year => (
+        <Text key={year} style={[styles.year, year === highlighted && styles.yearActive]}>
+          {`'${String(year).slice(-2)}`}
+        </Text>
+      ))}
+
+      {dragYear !== null && (
+        <View style={styles.bubble} pointerEvents="none">
+          <Text style={styles.bubbleText}>{dragYear}</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 8,
+    bottom: 8,
+    right: 2,
+    width: 32,
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+    borderRadius: 16,
+    backgroundColor: colors.surface,
+    opacity: 0.9,
+  },
+  year: {
+    fontSize: 10,
+    color: colors.textSecondary,
+    fontWeight: '500',
+    fontVariant: ['tabular-nums'],
+  },
+  yearActive: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  bubble: {
+    position: 'absolute',
+    top: '45%',
+    right: 40,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: colors.chrome,
+  },
+  bubbleText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.chromeText,
+  },
+});
+
+export default YearScrubber;
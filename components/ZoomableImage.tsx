@@ -0,0 +1,124 @@
+import { Image } from 'expo-image';
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, { runOnJS, useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+
+interface ZoomableImageProps {
+  uri: string;
+  width: number;
+  height: number;
+  onZoomChange?: (zoomed: boolean) => void; // Lets the gallery stop paging while zoomed in
+}
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+
+const AnimatedImage = Animated.createAnimatedComponent(Image);
+
+// Pinch to zoom, drag to pan while zoomed, double-tap to toggle zoom
+const ZoomableImage: React.FC<ZoomableImageProps> = ({ uri, width, height, onZoomChange }) => {
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const notifyZoom = (zoomed: boolean) => onZoomChange?.(zoomed);
+
+  // Keep the image edges from being dragged into view
+  const clamp = (value: number, extent: number, currentScale: number) => {
+    'worklet';
+    const limit = (extent * (currentScale - 1)) / 2;
+    return Math.min(limit, Math.max(-limit, value));
+  };
+
+  const reset = () => {
+    'worklet';
+    scale.value = withTiming(1);
+    savedScale.value = 1;
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+    runOnJS(notifyZoom)(false);
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate(event => {
+      scale.value = Math.min(MAX_SCALE, Math.max(0.8, savedScale.value * event.scale));
+    })
+    .onEnd(() => {
+      if (scale.value <= 1) {
+        reset();
+        return;
+      }
+      savedScale.value = scale.value;
+      translateX.value = withTiming(clamp(translateX.value, width, scale.value));
+      translateY.value = withTiming(clamp(translateY.value, height, scale.value));
+      savedTranslateX.value = clamp(translateX.value, width, scale.value);
+      savedTranslateY.value = clamp(translateY.value, height, scale.value);
+      runOnJS(notifyZoom)(true);
+    });
+
+  // Only claims the gesture when zoomed, so swipes still page the gallery
+  const pan = Gesture.Pan()
+    .averageTouches(true)
+    .manualActivation(true)
+    .onTouchesMove((_event, state) => {
+      if (savedScale.value > 1) {
+        state.activate();
+      } else {
+        state.fail();
+      }
+    })
+    .onUpdate(event => {
+      translateX.value = clamp(savedTranslateX.value + event.translationX, width, scale.value);
+      translateY.value = clamp(savedTranslateY.value + event.translationY, height, scale.value);
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      if (savedScale.value > 1) {
+        reset();
+        return;
+      }
+      scale.value = withTiming(DOUBLE_TAP_SCALE);
+      savedScale.value = DOUBLE_TAP_SCALE;
+      runOnJS(notifyZoom)(true);
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  return (
+    <GestureDetector gesture={Gesture.Simultaneous(pinch, pan, doubleTap)}>
+      <AnimatedImage
+        source={{ uri }}
+        style={[styles.image, { width, height }, animatedStyle]}
+        contentFit="contain"
+        cachePolicy="memory-disk"
+        transition={200}
+      />
+    </GestureDetector>
+  );
+};
+
+const styles = StyleSheet.create({
+  image: {
+    backgroundColor: '#000',
+  },
+});
+
+export default ZoomableImage;
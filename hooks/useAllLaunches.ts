@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Launch, LaunchFilters, LaunchSort } from '../lib/types';
+import { api } from '../lib/api';
+import { ApiError, isAbortError, toApiError } from '../lib/errors';
+import { EMPTY_FILTERS } from '../lib/filters';
+import { logger } from '../lib/logger';
+import { DEFAULT_SORT } from '../lib/sort';
+
+// Every launch matching the filters in one go, for screens that don't page.
+// Pass enabled=false while a required filter (e.g. a route param) is missing,
+// since an empty filter would match the whole catalog
+export function useAllLaunches(
+  filters: Partial<LaunchFilters>,
+  sort: LaunchSort = DEFAULT_SORT,
+  query: string = '',
+  enabled: boolean = true
+) {
+  const [launches, setLaunches] = useState<Launch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  // Callers usually pass an inline object; key on its contents instead
+  const filtersKey = JSON.stringify(filters);
+  const resolvedFilters = useMemo<LaunchFilters>(
+    () => ({ ...EMPTY_FILTERS, ...JSON.parse(filtersKey) }),
+    [filtersKey]
+  );
+
+  // Only the newest request may touch state; older ones are aborted
+  const requestIdRef = useRef(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const fetchLaunches = useCallback(async (force: boolean = false) => {
+    abortControllerRef.current?.abort();
+    if (!enabled) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const requestId = ++requestIdRef.current;
+    const isCurrent = () => requestIdRef.current === requestId;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await api.fetchAllLaunches(query || undefined, resolvedFilters, sort, {
+        force,
+        signal: controller.signal,
+        onRevalidate: fresh => {
+          // Ignore refreshes for a search the user has already moved on from
+          if (isCurrent()) setLaunches(fresh);
+        },
+      });
+
+      if (!isCurrent()) return;
+      setLaunches(data);
+    } catch (err) {
+      if (isAbortError(err) || !isCurrent()) return;
+      setError(toApiError(err));
+      logger.error('Failed to fetch launches', err);
+    } finally {
+      if (isCurrent()) {
+        setLoading(false);
+        abortControllerRef.current = null;
+      }
+    }
+  }, [resolvedFilters, sort, query, enabled]);
+
+  const refetch = useCallback(() => fetchLaunches(true), [fetchLaunches]);
+
+  useEffect(() => {
+    fetchLaunches();
+  }, [fetchLaunches]);
+
+  // Don't let an in-flight request outlive the screen
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  return {
+    launches,
+    loading,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,61 @@
+import { useCallback, useState } from 'react';
+import { Alert } from 'react-native';
+import { api } from '../lib/api';
+import { buildCalendar, CALENDAR_MIME_TYPE, CALENDAR_UTI, getCalendarFileName } from '../lib/calendar';
+import { EMPTY_FILTERS } from '../lib/filters';
+import { logger } from '../lib/logger';
+import { shareTextFile } from '../lib/media';
+import { Launch, Launchpad } from '../lib/types';
+
+const UPCOMING_FILE_NAME = 'spacex-upcoming-launches.ics';
+
+const shareCalendar = (fileName: string, launches: Launch[], launchpads: Launchpad[]) => {
+  return shareTextFile(fileName, buildCalendar(launches, launchpads), {
+    mimeType: CALENDAR_MIME_TYPE,
+    uti: CALENDAR_UTI,
+    dialogTitle: 'Add to calendar',
+  });
+};
+
+// Hands launches to the calendar app as an .ics file
+export function useCalendarExport() {
+  const [exporting, setExporting] = useState(false);
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setExporting(true);
+    try {
+      await task();
+    } catch (err) {
+      logger.error('Failed to export calendar', err);
+      Alert.alert('Could not export', 'Please check your connection and try again.');
+    } finally {
+      setExporting(false);
+    }
+  }, []);
+
+  const exportLaunch = useCallback((launch: Launch, launchpad: Launchpad | null) => {
+    return run(() => shareCalendar(getCalendarFileName(launch.name), [launch], launchpad ? [launchpad] : []));
+  }, [run]);
+
+  const exportUpcoming = useCallback(() => {
+    return run(async () => {
+      const [launches, launchpads] = await Promise.all([
+        api.fetchAllLaunches(undefined, { ...EMPTY_FILTERS, upcoming: true }, 'oldest'),
+        api.fetchLaunchpads(),
+      ]);
+
+      if (launches.length === 0) {
+        Alert.alert('Nothing to export', 'There are no upcoming launches right now.');
+        return;
+      }
+
+      await shareCalendar(UPCOMING_FILE_NAME, launches, launchpads);
+    });
+  }, [run]);
+
+  return {
+    exporting,
+    exportLaunch,
+    exportUpcoming,
+  };
+}
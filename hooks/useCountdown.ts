@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { formatCountdown, formatNetDate, getCountdown } from '../lib/countdown';
+import { DatePrecision } from '../lib/types';
+
+type Listener = (now: number) => void;
+
+// One shared ticker so a screen full of rows doesn't start an interval each
+const listeners = new Set<Listener>();
+let ticker: ReturnType<typeof setInterval> | null = null;
+
+const subscribe = (listener: Listener) => {
+  listeners.add(listener);
+  if (!ticker) {
+    ticker = setInterval(() => {
+      const now = Date.now();
+      listeners.forEach(notify => notify(now));
+    }, 1000);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && ticker) {
+      clearInterval(ticker);
+      ticker = null;
+    }
+  };
+};
+
+// Live T-minus label for a launch date, or null when disabled. A date not
+// known to the hour gets a static "NET" label instead of a ticking clock
+export function useCountdown(
+  targetUtc: string | undefined,
+  enabled: boolean = true,
+  precision: DatePrecision = 'hour'
+) {
+  const [now, setNow] = useState(() => Date.now());
+  const active = enabled && Boolean(targetUtc) && precision === 'hour';
+
+  useEffect(() => {
+    if (!active) return;
+    setNow(Date.now());
+    return subscribe(setNow);
+  }, [active]);
+
+  if (!enabled || !targetUtc) return null;
+  if (!active) return formatNetDate(targetUtc, precision);
+  return formatCountdown(getCountdown(targetUtc, now));
+}
@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { DistanceUnit, unitsStore } from '../lib/units';
+
+export function useDistanceUnit() {
+  const unit = useSyncExternalStore(unitsStore.subscribe, unitsStore.getSnapshot);
+
+  useEffect(() => {
+    unitsStore.load();
+  }, []);
+
+  const setUnit = useCallback((next: DistanceUnit) => unitsStore.set(next), []);
+
+  const toggleUnit = useCallback(() => {
+    unitsStore.set(unitsStore.getSnapshot() === 'km' ? 'mi' : 'km');
+  }, []);
+
+  return {
+    unit,
+    setUnit,
+    toggleUnit,
+  };
+}
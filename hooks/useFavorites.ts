@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { favoritesStore } from '../lib/favorites';
+import { Launch } from '../lib/types';
+
+export function useFavorites() {
+  const favorites = useSyncExternalStore(favoritesStore.subscribe, favoritesStore.getSnapshot);
+
+  useEffect(() => {
+    favoritesStore.load();
+  }, []);
+
+  // Most recent launches first
+  const launches = useMemo(
+    () => Object.values(favorites).sort((a, b) => b.date_utc.localeCompare(a.date_utc)),
+    [favorites]
+  );
+
+  const isFavorite = useCallback((id: string) => id in favorites, [favorites]);
+
+  const toggleFavorite = useCallback((launch: Launch) => favoritesStore.toggle(launch), []);
+
+  const removeFavorite = useCallback((id: string) => favoritesStore.remove(id), []);
+
+  return {
+    favorites: launches,
+    isFavorite,
+    toggleFavorite,
+    removeFavorite,
+    updateFavorites: favoritesStore.update,
+  };
+}
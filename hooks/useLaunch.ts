@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Launch } from '../lib/types';
+import { api } from '../lib/api';
+import { ApiError, toApiError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { reminders } from '../lib/reminders';
+
+const launchCache = new Map<string, Launch>();
+
+// Remember a launch that is already loaded (e.g. from the list) so the
+// details screen can render it immediately while it refreshes.
+export function seedLaunch(launch: Launch) {
+  launchCache.set(launch.id, launch);
+}
+
+export function useLaunch(launchId: string) {
+  const [launch, setLaunch] = useState<Launch | null>(
+    () => launchCache.get(launchId) ?? null
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const requestIdRef = useRef(0);
+
+  const fetchLaunch = useCallback(async (force: boolean = false) => {
+    if (!launchId) return;
+
+    // A response for a launch we've since moved away from must not replace the current one
+    const requestId = ++requestIdRef.current;
+    const isCurrent = () => requestIdRef.current === requestId;
+
+    const cached = launchCache.get(launchId);
+    setLaunch(cached ?? null);
+
+    try {
+      // Only show a spinner when there is nothing to render yet
+      setLoading(!cached);
+      setError(null);
+
+      const data = await api.fetchLaunch(launchId, {
+        force,
+        onRevalidate: fresh => {
+          launchCache.set(launchId, fresh);
+          reminders.sync([fresh]).catch(err => logger.error('Failed to sync reminders', err));
+          if (isCurrent()) setLaunch(fresh);
+        },
+      });
+
+      launchCache.set(launchId, data);
+      reminders.sync([data]).catch(err => logger.error('Failed to sync reminders', err));
+      if (!isCurrent()) return;
+      setLaunch(data);
+    } catch (err) {
+      if (!isCurrent()) return;
+      setError(toApiError(err));
+      logger.error('Failed to fetch launch', err);
+    } finally {
+      if (isCurrent()) {
+        setLoading(false);
+      }
+    }
+  }, [launchId]);
+
+  const refetch = useCallback(() => fetchLaunch(true), [fetchLaunch]);
+
+  useEffect(() => {
+    fetchLaunch();
+  }, [fetchLaunch]);
+
+  return {
+    launch,
+    loading,
+    error,
+    refetch,
+  };
+}
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api } from '../lib/api';
+import { ComparedLaunch } from '../lib/compare';
+import { ApiError, toApiError } from '../lib/errors';
+import { logger } from '../lib/logger';
+import { Payload } from '../lib/types';
+
+// Loads a few launches together with their launchpads, rockets and payloads
+export function useLaunchComparison(launchIds: string[]) {
+  const [items, setItems] = useState<ComparedLaunch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  // Callers usually pass an inline array; key on its contents instead
+  const idsKey = launchIds.join(',');
+
+  const fetchComparison = useCallback(async (force: boolean = false) => {
+    const ids = idsKey.split(',').filter(Boolean);
+    if (ids.length === 0) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [launches, launchpads, rockets] = await Promise.all([
+        Promise.all(ids.map(id => api.fetchLaunch(id, { force }))),
+        api.fetchLaunchpads({ force }),
+        api.fetchRockets({ force }),
+      ]);
+
+      // A missing payload only blanks its cells, it shouldn't sink the whole comparison
+      const payloads = await Promise.all(launches.map(launch => Promise.all(
+        launch.payloads.map(id => api.fetchPayload(id, { force }).catch(err => {
+          logger.error('Failed to fetch payload', err);
+          return null;
+        }))
+      )));
+
+      setItems(launches.map((launch, index) => ({
+        launch,
+        launchpad: launchpads.find(launchpad => launchpad.id === launch.launchpad) ?? null,
+        rocket: rockets.find(rocket => rocket.id === launch.rocket) ?? null,
+        payloads: payloads[index].filter((payload): payload is Payload => payload !== null),
+      })));
+    } catch (err) {
+      setError(toApiError(err));
+      logger.error('Failed to fetch launches to compare', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [idsKey]);
+
+  const refetch = useCallback(() => fetchComparison(true), [fetchComparison]);
+
+  useEffect(() => {
+    fetchComparison();
+  }, [fetchComparison]);
+
+  return {
+    items,
+    loading,
+    error,
+    refetch,
+  };
+}
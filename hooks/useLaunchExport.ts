@@ -0,0 +1,50 @@
+import { useCallback, useState } from 'react';
+import { Alert } from 'react-native';
+import { api } from '../lib/api';
+import {
+  EXPORT_FILE_TYPES,
+  ExportFormat,
+  getExportFileName,
+  serializeLaunches,
+  toExportRows,
+} from '../lib/launchExport';
+import { logger } from '../lib/logger';
+import { shareTextFile } from '../lib/media';
+import { Launch } from '../lib/types';
+
+// Writes a set of launches to CSV or JSON and opens the share sheet
+export function useLaunchExport() {
+  const [exporting, setExporting] = useState(false);
+
+  const exportLaunches = useCallback(async (format: ExportFormat, getLaunches: () => Promise<Launch[]>) => {
+    setExporting(true);
+    try {
+      const [launches, launchpads, rockets] = await Promise.all([
+        getLaunches(),
+        api.fetchLaunchpads(),
+        api.fetchRockets(),
+      ]);
+
+      if (launches.length === 0) {
+        Alert.alert('Nothing to export', 'No launches match the current search and filters.');
+        return;
+      }
+
+      const contents = serializeLaunches(format, toExportRows(launches, launchpads, rockets));
+      await shareTextFile(getExportFileName(format), contents, {
+        ...EXPORT_FILE_TYPES[format],
+        dialogTitle: `Export ${launches.length} ${launches.length === 1 ? 'launch' : 'launches'}`,
+      });
+    } catch (err) {
+      logger.error('Failed to export launches', err);
+      Alert.alert('Could not export', 'Please check your connection and try again.');
+    } finally {
+      setExporting(false);
+    }
+  }, []);
+
+  return {
+    exporting,
+    exportLaunches,
+  };
+}
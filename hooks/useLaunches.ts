@@ -1,52 +1,121 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Launch, LaunchResponse } from '../lib/types';
-import { api } from '../lib/api';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Launch, LaunchFilters, LaunchResponse, LaunchSort } from '../lib/types';
+import { api, getLaunchesQueryKey } from '../lib/api';
+import { ApiError, isAbortError, toApiError } from '../lib/errors';
+import { EMPTY_FILTERS } from '../lib/filters';
+import { prefetchLaunchImages } from '../lib/images';
 import { logger } from '../lib/logger';
+import { preferences } from '../lib/preferences';
+import { reminders } from '../lib/reminders';
+import { DEFAULT_SORT } from '../lib/sort';
+
+const PAGE_SIZE = 20;
+const SORT_PREFERENCE_KEY = 'launchSort';
 
 export function useLaunches() {
   const [launches, setLaunches] = useState<Launch[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
   const [hasNextPage, setHasNextPage] = useState(false);
+  const [totalDocs, setTotalDocs] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
   const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<LaunchFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<LaunchSort>(DEFAULT_SORT);
   const [refreshing, setRefreshing] = useState(false);
+  // Timestamp of the cached data on screen when the network is unreachable
+  const [offlineSince, setOfflineSince] = useState<number | null>(null);
+  const activeQueryRef = useRef('');
+  // Only the newest fetchPage call may touch state; older ones are aborted
+  const requestIdRef = useRef(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Read by search/reset so their identities don't change with every filter or sort edit
+  const filtersRef = useRef<LaunchFilters>(EMPTY_FILTERS);
+  const sortRef = useRef<LaunchSort>(DEFAULT_SORT);
+
+  const applyPage = useCallback((page: number, response: LaunchResponse) => {
+    // Replace only this page's slice so background refreshes keep the other pages
+    const start = (page - 1) * PAGE_SIZE;
+    setLaunches(prev => [...prev.slice(0, start), ...response.docs, ...prev.slice(start + PAGE_SIZE)]);
+
+    setHasNextPage(response.hasNextPage);
+    setTotalDocs(response.totalDocs);
+    setOfflineSince(response.cache?.offline ? response.cache.timestamp : null);
+
+    // Fresh data may show a slipped or scrubbed launch with reminders set
+    reminders.sync(response.docs).catch(err => logger.error('Failed to sync reminders', err));
+    prefetchLaunchImages(response.docs);
+  }, []);
+
+  const fetchPage = useCallback(async (
+    page: number,
+    query: string = '',
+    pageFilters: LaunchFilters = filtersRef.current,
+    force: boolean = false
+  ) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const requestId = ++requestIdRef.current;
+    const isCurrent = () => requestIdRef.current === requestId;
 
-  const fetchPage = useCallback(async (page: number, query: string = '') => {
     try {
       setLoading(true);
       setError(null);
+      const pageSort = sortRef.current;
+      const queryKey = getLaunchesQueryKey(query, pageFilters, pageSort);
+      activeQueryRef.current = queryKey;
       
-      const response = await api.fetchLaunches(page, 20, query);
+      const response = await api.fetchLaunches(page, PAGE_SIZE, query, pageFilters, pageSort, {
+        force,
+        signal: controller.signal,
+        onRevalidate: fresh => {
+          // Ignore refreshes for a search the user has already moved on from
+          if (fresh.queryKey === activeQueryRef.current) {
+            applyPage(page, fresh);
+          }
+        },
+      });
+
+      // A newer request started while this one was in flight
+      if (!isCurrent() || response.queryKey !== activeQueryRef.current) {
+        return;
+      }
       
       if (page === 1) {
-        setLaunches(response.docs);
-      } else {
-        setLaunches(prev => [...prev, ...response.docs]);
+        setLaunches([]);
       }
-      
-      setHasNextPage(response.hasNextPage);
+      applyPage(page, response);
       setCurrentPage(page);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch launches';
-      setError(errorMessage);
+      if (isAbortError(err) || !isCurrent()) return;
+      setError(toApiError(err));
       logger.error('Failed to fetch launches', err);
     } finally {
-      setLoading(false);
+      if (isCurrent()) {
+        setLoading(false);
+        abortControllerRef.current = null;
+      }
     }
-  }, []);
+  }, [applyPage]);
 
   const refresh = useCallback(async () => {
     setRefreshing(true);
-    await fetchPage(1, searchQuery);
+    await fetchPage(1, searchQuery, filters, true);
     setRefreshing(false);
-  }, [fetchPage, searchQuery]);
+  }, [fetchPage, searchQuery, filters]);
 
   const loadNextPage = useCallback(async () => {
     if (hasNextPage && !loading) {
-      await fetchPage(currentPage + 1, searchQuery);
+      await fetchPage(currentPage + 1, searchQuery, filters);
     }
-  }, [hasNextPage, loading, currentPage, fetchPage, searchQuery]);
+  }, [hasNextPage, loading, currentPage, fetchPage, searchQuery, filters]);
+
+  // The whole result set for the current search, filters and sort in one request,
+  // so it can't drift from pages fetched earlier; the list on screen is left alone
+  const fetchAllPages = useCallback((): Promise<Launch[]> => {
+    return api.fetchAllLaunches(searchQuery, filtersRef.current, sortRef.current, { force: true });
+  }, [searchQuery]);
 
   const search = useCallback(async (query: string) => {
     console.log('Searching for:', query);
@@ -64,28 +133,65 @@ export function useLaunches() {
   }, [fetchPage]);
 
   const reset = useCallback(async () => {
+    setSearchQuery('');
     setLaunches([]);
     setCurrentPage(1);
     setHasNextPage(false);
     await fetchPage(1, '');
   }, [fetchPage]);
 
-  // Initial load
+  // Active filters stay applied across search, pagination and refresh
+  const applyFilters = useCallback(async (nextFilters: LaunchFilters) => {
+    filtersRef.current = nextFilters;
+    setFilters(nextFilters);
+    setLaunches([]);
+    setCurrentPage(1);
+    setHasNextPage(false);
+    await fetchPage(1, searchQuery, nextFilters);
+  }, [fetchPage, searchQuery]);
+
+  const changeSort = useCallback(async (nextSort: LaunchSort) => {
+    sortRef.current = nextSort;
+    setSort(nextSort);
+    preferences.set(SORT_PREFERENCE_KEY, nextSort);
+    setLaunches([]);
+    setCurrentPage(1);
+    setHasNextPage(false);
+    await fetchPage(1, searchQuery, filtersRef.current);
+  }, [fetchPage, searchQuery]);
+
+  // Initial load, in the sort order remembered from the last session
   useEffect(() => {
-    fetchPage(1);
+    preferences.get<LaunchSort>(SORT_PREFERENCE_KEY, DEFAULT_SORT).then(savedSort => {
+      sortRef.current = savedSort;
+      setSort(savedSort);
+      fetchPage(1);
+    });
   }, [fetchPage]);
 
+  // Don't let an in-flight request outlive the screen
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   return {
     launches,
     loading,
     error,
     hasNextPage,
+    totalDocs,
     refreshing,
+    offlineSince,
     searchQuery,
+    filters,
+    sort,
     fetchPage,
     refresh,
     loadNextPage,
+    fetchAllPages,
     search,
     reset,
+    applyFilters,
+    changeSort,
   };
 } 
\ No newline at end of file
@@ -1,42 +1,38 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Launchpad } from '../lib/types';
 import { api } from '../lib/api';
+import { ApiError, toApiError } from '../lib/errors';
 import { logger } from '../lib/logger';
 
-const launchpadCache = new Map<string, Launchpad>();
-
 export function useLaunchpad(launchpadId: string) {
   const [launchpad, setLaunchpad] = useState<Launchpad | null>(null);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
 
-  const fetchLaunchpad = useCallback(async () => {
+  // Launchpads are cached on disk by the api layer, so this is usually instant
+  const fetchLaunchpad = useCallback(async (force: boolean = false) => {
     if (!launchpadId) return;
 
-   
-    if (launchpadCache.has(launchpadId)) {
-      setLaunchpad(launchpadCache.get(launchpadId)!);
-      return;
-    }
-
     try {
       setLoading(true);
       setError(null);
       
-      const data = await api.fetchLaunchpad(launchpadId);
+      const data = await api.fetchLaunchpad(launchpadId, {
+        force,
+        onRevalidate: setLaunchpad,
+      });
       
-      
-      launchpadCache.set(launchpadId, data);
       setLaunchpad(data);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch launchpad';
-      setError(errorMessage);
+      setError(toApiError(err));
       logger.error('Failed to fetch launchpad', err);
     } finally {
       setLoading(false);
     }
   }, [launchpadId]);
 
+  const refetch = useCallback(() => fetchLaunchpad(true), [fetchLaunchpad]);
+
   useEffect(() => {
     fetchLaunchpad();
   }, [fetchLaunchpad]);
@@ -45,6 +41,6 @@ export function useLaunchpad(launchpadId: string) {
     launchpad,
     loading,
     error,
-    refetch: fetchLaunchpad,
+    refetch,
   };
 } 
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Launchpad } from '../lib/types';
+import { api } from '../lib/api';
+import { ApiError, toApiError } from '../lib/errors';
+import { logger } from '../lib/logger';
+
+export function useLaunchpads() {
+  const [launchpads, setLaunchpads] = useState<Launchpad[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const fetchLaunchpads = useCallback(async (force: boolean = false) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await api.fetchLaunchpads({
+        force,
+        onRevalidate: setLaunchpads,
+      });
+
+      setLaunchpads(data);
+    } catch (err) {
+      setError(toApiError(err));
+      logger.error('Failed to fetch launchpads', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const refetch = useCallback(() => fetchLaunchpads(true), [fetchLaunchpads]);
+
+  useEffect(() => {
+    fetchLaunchpads();
+  }, [fetchLaunchpads]);
+
+  return {
+    launchpads,
+    loading,
+    error,
+    refetch,
+  };
+}
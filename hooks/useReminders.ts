@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Launch } from '../lib/types';
+import { logger } from '../lib/logger';
+import { ReminderOffset, reminders } from '../lib/reminders';
+
+export function useReminders(launch: Launch | null) {
+  const [offsets, setOffsets] = useState<ReminderOffset[]>([]);
+  const [permissionDenied, setPermissionDenied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const launchId = launch?.id;
+
+  // Re-read on every change so reminders cancelled by a sync don't stay checked
+  useEffect(() => {
+    if (!launchId) return;
+    let cancelled = false;
+
+    const refresh = () => {
+      reminders.getOffsets(launchId).then(next => {
+        if (!cancelled) setOffsets(next);
+      });
+    };
+
+    refresh();
+    const unsubscribe = reminders.subscribe(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [launchId]);
+
+  const toggleOffset = useCallback(async (offset: ReminderOffset) => {
+    if (!launch) return;
+
+    const next = offsets.includes(offset)
+      ? offsets.filter(o => o !== offset)
+      : [...offsets, offset];
+
+    try {
+      setError(null);
+
+      // Only ask for permission the first time a reminder is turned on
+      if (next.length > offsets.length) {
+        const granted = await reminders.requestPermission();
+        setPermissionDenied(!granted);
+        if (!granted) return;
+      }
+
+      await reminders.setOffsets(launch, next);
+      setOffsets(next);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update reminders';
+      setError(errorMessage);
+      logger.error('Failed to update reminders', err);
+    }
+  }, [launch, offsets]);
+
+  return {
+    offsets,
+    permissionDenied,
+    error,
+    toggleOffset,
+  };
+}
@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Rocket } from '../lib/types';
+import { api } from '../lib/api';
+import { ApiError, toApiError } from '../lib/errors';
+import { logger } from '../lib/logger';
+
+export function useRocket(rocketId: string) {
+  const [rocket, setRocket] = useState<Rocket | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  // Rockets are cached on disk by the api layer, so this is usually instant
+  const fetchRocket = useCallback(async (force: boolean = false) => {
+    if (!rocketId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      
+      const data = await api.fetchRocket(rocketId, {
+        force,
+        onRevalidate: setRocket,
+      });
+      
+      setRocket(data);
+    } catch (err) {
+      setError(toApiError(err));
+      logger.error('Failed to fetch rocket', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [rocketId]);
+
+  const refetch = useCallback(() => fetchRocket(true), [fetchRocket]);
+
+  useEffect(() => {
+    fetchRocket();
+  }, [fetchRocket]);
+
+  return {
+    rocket,
+    loading,
+    error,
+    refetch,
+  };
+} 
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Rocket } from '../lib/types';
+import { api } from '../lib/api';
+import { ApiError, toApiError } from '../lib/errors';
+import { logger } from '../lib/logger';
+
+export function useRockets() {
+  const [rockets, setRockets] = useState<Rocket[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const fetchRockets = useCallback(async (force: boolean = false) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await api.fetchRockets({
+        force,
+        onRevalidate: setRockets,
+      });
+
+      setRockets(data);
+    } catch (err) {
+      setError(toApiError(err));
+      logger.error('Failed to fetch rockets', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const refetch = useCallback(() => fetchRockets(true), [fetchRockets]);
+
+  useEffect(() => {
+    fetchRockets();
+  }, [fetchRockets]);
+
+  return {
+    rockets,
+    loading,
+    error,
+    refetch,
+  };
+}
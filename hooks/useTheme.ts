@@ -0,0 +1,30 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { Theme, ThemeColors, ThemeMode, themes, themeStore } from '../lib/theme';
+
+// Provided by ThemeProvider; screens rendered outside it (e.g. in tests) get the light theme
+export const ThemeContext = createContext<Theme>(themes.light);
+
+export function useTheme() {
+  return useContext(ThemeContext);
+}
+
+// Memoized StyleSheet built from the current colors; pass a module-level factory
+export function useThemedStyles<T>(createStyles: (colors: ThemeColors) => T): T {
+  const { colors } = useTheme();
+  return useMemo(() => createStyles(colors), [createStyles, colors]);
+}
+
+export function useThemeMode() {
+  const mode = useSyncExternalStore(themeStore.subscribe, themeStore.getSnapshot);
+
+  useEffect(() => {
+    themeStore.load();
+  }, []);
+
+  const setMode = useCallback((next: ThemeMode) => themeStore.set(next), []);
+
+  return {
+    mode,
+    setMode,
+  };
+}
@@ -1,5 +1,6 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useSyncExternalStore } from 'react';
 import * as Location from 'expo-location';
+import { HomeLocation, homeLocationStore } from '../lib/homeLocation';
 import { logger } from '../lib/logger';
 
 export type LocationState = {
@@ -10,11 +11,29 @@ export type LocationState = {
 
 export type PermissionStatus = 'unasked' | 'granted' | 'denied' | 'restricted';
 
-export function useUserLocation() {
+export type LocationSource = 'gps' | 'home';
+
+export type UserLocationOptions = {
+  watch?: boolean;            // Keep following the device while mounted
+  distanceInterval?: number;  // Meters moved before a watch update fires
+};
+
+// A cached fix is good enough to show something while the precise one loads
+const LAST_KNOWN_MAX_AGE = 5 * 60 * 1000;
+const LAST_KNOWN_REQUIRED_ACCURACY = 1000;
+
+const toLocationState = (position: Location.LocationObject): LocationState => ({
+  latitude: position.coords.latitude,
+  longitude: position.coords.longitude,
+  accuracy: position.coords.accuracy,
+});
+
+export function useUserLocation({ watch = false, distanceInterval = 100 }: UserLocationOptions = {}) {
   const [location, setLocation] = useState<LocationState | null>(null);
   const [permissionStatus, setPermissionStatus] = useState<PermissionStatus>('unasked');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const homeLocation = useSyncExternalStore(homeLocationStore.subscribe, homeLocationStore.getSnapshot);
 
   const requestPermission = useCallback(async () => {
     try {
@@ -39,20 +58,36 @@ export function useUserLocation() {
     }
   }, []);
 
+  const getLastKnownLocation = useCallback(async () => {
+    try {
+      const lastKnown = await Location.getLastKnownPositionAsync({
+        maxAge: LAST_KNOWN_MAX_AGE,
+        requiredAccuracy: LAST_KNOWN_REQUIRED_ACCURACY,
+      });
+
+      if (lastKnown) {
+        setLocation(toLocationState(lastKnown));
+      }
+      return lastKnown;
+    } catch (err) {
+      logger.warn('Failed to get last known location', err);
+      return null;
+    }
+  }, []);
+
   const getCurrentLocation = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
 
+      // Show the last known position straight away, then refine it
+      await getLastKnownLocation();
+
       const currentLocation = await Location.getCurrentPositionAsync({
         accuracy: Location.Accuracy.High,
       });
 
-      setLocation({
-        latitude: currentLocation.coords.latitude,
-        longitude: currentLocation.coords.longitude,
-        accuracy: currentLocation.coords.accuracy,
-      });
+      setLocation(toLocationState(currentLocation));
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to get current location';
       setError(errorMessage);
@@ -60,7 +95,7 @@ export function useUserLocation() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [getLastKnownLocation]);
 
   const checkPermissionStatus = useCallback(async () => {
     try {
@@ -73,18 +108,69 @@ export function useUserLocation() {
     }
   }, []);
 
+  const setHomeLocation = useCallback((home: HomeLocation) => homeLocationStore.set(home), []);
+
+  const clearHomeLocation = useCallback(() => homeLocationStore.clear(), []);
+
  
   useEffect(() => {
     checkPermissionStatus();
+    homeLocationStore.load();
   }, [checkPermissionStatus]);
 
+  useEffect(() => {
+    if (!watch || permissionStatus !== 'granted') return;
+
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+
+    Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.Balanced,
+        distanceInterval,
+      },
+      position => setLocation(toLocationState(position))
+    )
+      .then(sub => {
+        // Unmounted before the subscription was ready
+        if (cancelled) {
+          sub.remove();
+        } else {
+          subscription = sub;
+        }
+      })
+      .catch(err => {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to watch location';
+        setError(errorMessage);
+        logger.error('Failed to watch location', err);
+      });
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [watch, distanceInterval, permissionStatus]);
+
+  // GPS wins when we have it, otherwise fall back to the saved home location
+  const resolvedLocation = useMemo<LocationState | null>(
+    () => location ?? (homeLocation ? { ...homeLocation, accuracy: null } : null),
+    [location, homeLocation]
+  );
+  const locationSource: LocationSource | null = location ? 'gps' : homeLocation ? 'home' : null;
+
   return {
     location,
+    resolvedLocation,
+    locationSource,
+    homeLocation,
     permissionStatus,
     loading,
     error,
     requestPermission,
     getCurrentLocation,
+    getLastKnownLocation,
     checkPermissionStatus,
+    setHomeLocation,
+    clearHomeLocation,
   };
 } 
\ No newline at end of file
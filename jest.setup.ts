@@ -0,0 +1,45 @@
+// Native modules the app touches at import time or on mount; tests override these as needed
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('react-native-safe-area-context', () =>
+  require('react-native-safe-area-context/jest/mock').default
+);
+
+jest.mock('expo-notifications', () => ({
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+  getPermissionsAsync: jest.fn(async () => ({ status: 'granted', granted: true })),
+  requestPermissionsAsync: jest.fn(async () => ({ status: 'granted', granted: true })),
+  scheduleNotificationAsync: jest.fn(async () => 'notification-id'),
+  cancelScheduledNotificationAsync: jest.fn(async () => undefined),
+  setNotificationHandler: jest.fn(),
+  addNotificationResponseReceivedListener: jest.fn(() => ({ remove: jest.fn() })),
+}));
+
+jest.mock('expo-location', () => ({
+  Accuracy: { Balanced: 3, High: 4 },
+  getForegroundPermissionsAsync: jest.fn(async () => ({ status: 'denied' })),
+  requestForegroundPermissionsAsync: jest.fn(async () => ({ status: 'denied' })),
+  getCurrentPositionAsync: jest.fn(),
+  getLastKnownPositionAsync: jest.fn(async () => null),
+  watchPositionAsync: jest.fn(async () => ({ remove: jest.fn() })),
+}));
+
+jest.mock('react-native-maps', () => {
+  const React = require('react');
+  const { View } = require('react-native');
+  const MockMapView = React.forwardRef((props: object, ref: unknown) => React.createElement(View, { ...props, ref }));
+  const MockView = (props: object) => React.createElement(View, props);
+  return {
+    __esModule: true,
+    default: MockMapView,
+    Marker: MockView,
+    Callout: MockView,
+  };
+});
+
+// The api layer logs every request; keep test output readable. Errors stay
+// visible, and tests that expect one silence it themselves
+jest.spyOn(console, 'log').mockImplementation(() => {});
@@ -1,203 +1,356 @@
-import { Launch, Launchpad, LaunchResponse } from './types';
-
-const SPACEX_API_BASE = 'https://api.spacexdata.com';
-
-// Helper function to create fetch with timeout
-const fetchWithTimeout = async (url: string, options: RequestInit, timeout: number = 10000) => {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-  
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-    return response;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timeout - please check your internet connection');
-    }
-    throw error;
-  }
+import { cachedFetch } from './cache';
+import { ClientRequest, getSpaceXClient } from './client';
+import { ApiError, toApiError } from './errors';
+import { buildLaunchQuery, EMPTY_FILTERS, matchesFilters } from './filters';
+import { buildLaunchSort, compareLaunches, DEFAULT_SORT, sortsOnClient } from './sort';
+import { Launch, LaunchFilters, Launchpad, LaunchQueryResponse, LaunchResponse, LaunchSort, Payload, Rocket } from './types';
+
+// Every request goes through the configured SpaceXClient (HTTP by default, see lib/client.ts)
+const requestJson = <T>(path: string, request?: ClientRequest): Promise<T> => {
+  return getSpaceXClient().request<T>(path, request);
+};
+
+// Only a rejected query endpoint is worth working around; downloading the whole
+// catalog won't help when the device is offline, slow or rate limited
+const canFallBackToCatalog = (error: ApiError) => {
+  return error.info.kind === 'http' || error.info.kind === 'parse';
+};
+
+// Identifies a launch list (search, filters and sort) independent of the page
+export const getLaunchesQueryKey = (query: string | undefined, filters: LaunchFilters, sort: LaunchSort) => {
+  return `${query?.trim() ?? ''}:${JSON.stringify(filters)}:${sort}`;
+};
+
+// Apply search, filters and sort on the client when the query endpoint is unavailable
+const filterLaunchesLocally = (
+  launches: Launch[],
+  query: string | undefined,
+  filters: LaunchFilters,
+  sort: LaunchSort,
+  launchpadNames: Record<string, string> = {}
+): Launch[] => {
+  const searchTerm = query?.trim().toLowerCase();
+  return launches
+    .filter(launch => matchesFilters(launch, filters))
+    .filter(launch => !searchTerm || launch.name.toLowerCase().includes(searchTerm))
+    .sort(compareLaunches(sort, launchpadNames));
+};
+
+// One page of a list that was searched, filtered and sorted on the client
+const paginateLocally = (launches: Launch[], page: number, limit: number): LaunchResponse => {
+  const startIndex = (page - 1) * limit;
+  const endIndex = startIndex + limit;
+
+  return {
+    docs: launches.slice(startIndex, endIndex),
+    hasNextPage: launches.length > endIndex,
+    page,
+    totalDocs: launches.length,
+    totalPages: Math.ceil(launches.length / limit),
+  };
+};
+
+export type FetchOptions<T> = {
+  force?: boolean;                    // Bypass a fresh cache entry (e.g. pull-to-refresh)
+  onRevalidate?: (value: T) => void;  // Receives the result of a background refresh
+  signal?: AbortSignal;               // Cancels the network request, rejecting with an 'aborted' ApiError
 };
 
 export const api = {
   // Check if SpaceX API is accessible
   async checkApiHealth(): Promise<boolean> {
     try {
-      const response = await fetchWithTimeout(`${SPACEX_API_BASE}/v5/launches?limit=1`, {
-        method: 'GET',
-        headers: { 'Accept': 'application/json' }
-      }, 5000);
-      return response.ok;
+      await requestJson('/v5/launches?limit=1', { timeout: 5000, retry: false });
+      return true;
     } catch (error) {
       console.error('API health check failed:', error);
       return false;
     }
   },
 
-  // Fetch launches with pagination and search - using proper search endpoint
-  async fetchLaunches(page: number = 1, limit: number = 20, query?: string): Promise<LaunchResponse> {
+  // Fetch launches with pagination and search, served from the offline cache when possible
+  async fetchLaunches(
+    page: number = 1,
+    limit: number = 20,
+    query?: string,
+    filters: LaunchFilters = EMPTY_FILTERS,
+    sort: LaunchSort = DEFAULT_SORT,
+    options: FetchOptions<LaunchResponse> = {}
+  ): Promise<LaunchResponse> {
+    // Responses are tagged so callers can drop ones for a list they've moved on from
+    const queryKey = getLaunchesQueryKey(query, filters, sort);
+    const key = `launches:${page}:${limit}:${queryKey}`;
+    const { data, meta } = await cachedFetch(
+      key,
+      () => this.fetchLaunchesFromNetwork(page, limit, query, filters, sort, options.signal),
+      {
+        force: options.force,
+        signal: options.signal,
+        onRevalidate: value => options.onRevalidate?.({ ...value.data, cache: value.meta, queryKey }),
+      }
+    );
+    return { ...data, cache: meta, queryKey };
+  },
+
+  // Fetch launches with pagination, search and filters - using proper search endpoint
+  async fetchLaunchesFromNetwork(
+    page: number = 1,
+    limit: number = 20,
+    query?: string,
+    filters: LaunchFilters = EMPTY_FILTERS,
+    sort: LaunchSort = DEFAULT_SORT,
+    signal?: AbortSignal
+  ): Promise<LaunchResponse> {
+    // The server can't order by pad name; page the cached, sorted list instead
+    if (sortsOnClient(sort)) {
+      const launches = await this.fetchAllLaunches(query, filters, sort, { signal });
+      return paginateLocally(launches, page, limit);
+    }
+
     try {
-      let launches: Launch[];
-      
-      if (query && query.trim()) {
-        // Use POST endpoint for search queries
-        console.log('Searching launches with query:', query);
-        
-        const searchBody = {
-          query: { 
-            name: { 
-              $regex: query.trim(), 
-              $options: "i" 
-            } 
-          },
-          options: { 
-            limit: limit * 2, // Get more results for search
-            page: 1, 
-            sort: { date_utc: -1 } 
-          }
-        };
-
-        const response = await fetchWithTimeout(`${SPACEX_API_BASE}/v5/launches/query`, {
-          method: 'POST',
-          headers: { 
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-            'User-Agent': 'SpaceX-Explorer-App/1.0'
-          },
-          body: JSON.stringify(searchBody),
-        }, 15000); // Longer timeout for search
-
-        if (!response.ok) {
-          throw new Error(`Search request failed: ${response.status}`);
-        }
+      // Both browsing and searching go through the query endpoint so the
+      // paging metadata (totalDocs, hasNextPage, ...) comes from the server
+      const searchTerm = query?.trim();
+      console.log(searchTerm ? `Searching launches with query: ${searchTerm}, page: ${page}` : `Fetching all launches, page: ${page}`);
 
-        const searchResult = await response.json();
-        launches = searchResult.docs || [];
-        
-        // Implement client-side pagination for search results
-        const startIndex = (page - 1) * limit;
-        const endIndex = startIndex + limit;
-        launches = launches.slice(startIndex, endIndex);
-        
-      } else {
-        // Use GET endpoint for no search query
-        console.log('Fetching all launches, page:', page);
-        
-        const response = await fetchWithTimeout(`${SPACEX_API_BASE}/v5/launches?limit=${limit}&page=${page}&sort=date_utc`, {
-          method: 'GET',
-          headers: { 
-            'Accept': 'application/json',
-            'User-Agent': 'SpaceX-Explorer-App/1.0'
-          },
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
+      const queryBody = {
+        query: buildLaunchQuery(searchTerm, filters),
+        options: {
+          limit,
+          page,
+          sort: buildLaunchSort(sort),
         }
+      };
 
-        launches = await response.json() as Launch[];
-      }
+      const result = await requestJson<LaunchQueryResponse>('/v5/launches/query', {
+        method: 'POST',
+        body: queryBody,
+        signal,
+        timeout: 15000, // Longer timeout for query requests
+      });
 
-      console.log(`Fetched ${launches.length} launches`);
+      console.log(`Fetched ${result.docs.length} of ${result.totalDocs} launches`);
       
-      // Convert to expected format
       return {
-        docs: launches,
-        hasNextPage: launches.length === limit,
-        page,
-        totalDocs: launches.length,
-        totalPages: Math.ceil(launches.length / limit)
+        docs: result.docs,
+        hasNextPage: result.hasNextPage,
+        page: result.page,
+        totalDocs: result.totalDocs,
+        totalPages: result.totalPages
       };
-    } catch (error) {
+    } catch (err) {
+      const error = toApiError(err);
       console.error('Error fetching launches:', error);
-      
-      // Try fallback method if main method fails
-      try {
-        console.log('Trying fallback method...');
-        const fallbackLaunches = await this.fetchLaunchesSimple();
-        
-        // Apply search filter on client side if search was requested
-        let filteredLaunches = fallbackLaunches;
-        if (query && query.trim()) {
-          const searchTerm = query.trim().toLowerCase();
-          filteredLaunches = fallbackLaunches.filter(launch => 
-            launch.name.toLowerCase().includes(searchTerm)
-          );
-        }
-        
-        // Apply pagination
-        const startIndex = (page - 1) * limit;
-        const endIndex = startIndex + limit;
-        const paginatedLaunches = filteredLaunches.slice(startIndex, endIndex);
-        
-        return {
-          docs: paginatedLaunches,
-          hasNextPage: filteredLaunches.length > endIndex,
-          page,
-          totalDocs: filteredLaunches.length,
-          totalPages: Math.ceil(filteredLaunches.length / limit)
-        };
-      } catch (fallbackError) {
-        console.error('Fallback method also failed:', fallbackError);
-        
-        // Check if it's a network issue
-        const isApiHealthy = await this.checkApiHealth();
-        if (!isApiHealthy) {
-          throw new Error('SpaceX API is currently unavailable. Please try again later.');
-        }
-        
-        throw new Error('Failed to fetch launches. Please check your internet connection and try again.');
+
+      if (!canFallBackToCatalog(error)) {
+        throw error;
       }
+
+      // The query endpoint is rejecting us; page through the plain catalog instead
+      console.log('Trying fallback method...');
+      const fallbackLaunches = await this.fetchLaunchesSimple(signal);
+      
+      const launchpadNames = sortsOnClient(sort) ? await this.fetchLaunchpadNames() : {};
+      return paginateLocally(filterLaunchesLocally(fallbackLaunches, query, filters, sort, launchpadNames), page, limit);
     }
   },
 
-  // Fetch launchpad details by ID
-  async fetchLaunchpad(id: string): Promise<Launchpad> {
+  // Fetch every launch matching a search and filters, served from the offline cache when possible
+  async fetchAllLaunches(
+    query?: string,
+    filters: LaunchFilters = EMPTY_FILTERS,
+    sort: LaunchSort = DEFAULT_SORT,
+    options: FetchOptions<Launch[]> = {}
+  ): Promise<Launch[]> {
+    const key = `launches:all:${query?.trim() ?? ''}:${JSON.stringify(filters)}:${sort}`;
+    const { data } = await cachedFetch(key, () => this.fetchAllLaunchesFromNetwork(query, filters, sort, options.signal), {
+      force: options.force,
+      signal: options.signal,
+      onRevalidate: value => options.onRevalidate?.(value.data),
+    });
+    return data;
+  },
+
+  async fetchAllLaunchesFromNetwork(
+    query?: string,
+    filters: LaunchFilters = EMPTY_FILTERS,
+    sort: LaunchSort = DEFAULT_SORT,
+    signal?: AbortSignal
+  ): Promise<Launch[]> {
     try {
-      console.log('Fetching launchpad:', id);
-      
-      const response = await fetchWithTimeout(`${SPACEX_API_BASE}/v4/launchpads/${id}`, {
-        headers: { 
-          'Accept': 'application/json',
-          'User-Agent': 'SpaceX-Explorer-App/1.0'
+      console.log('Fetching all matching launches');
+
+      const result = await requestJson<LaunchQueryResponse>('/v5/launches/query', {
+        method: 'POST',
+        body: {
+          query: buildLaunchQuery(query?.trim(), filters),
+          options: { pagination: false, sort: buildLaunchSort(sort) },
         },
+        signal,
+        timeout: 15000,
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      if (!sortsOnClient(sort)) {
+        return result.docs;
       }
+      return [...result.docs].sort(compareLaunches(sort, await this.fetchLaunchpadNames()));
+    } catch (err) {
+      const error = toApiError(err);
+      if (!canFallBackToCatalog(error)) {
+        throw error;
+      }
+
+      console.error('Error fetching all launches, trying fallback method:', error);
+      const fallbackLaunches = await this.fetchLaunchesSimple(signal);
+      const launchpadNames = sortsOnClient(sort) ? await this.fetchLaunchpadNames() : {};
+      return filterLaunchesLocally(fallbackLaunches, query, filters, sort, launchpadNames);
+    }
+  },
+
+  // Fetch launchpad details by ID, served from the offline cache when possible
+  async fetchLaunchpad(id: string, options: FetchOptions<Launchpad> = {}): Promise<Launchpad> {
+    const { data } = await cachedFetch(`launchpad:${id}`, () => this.fetchLaunchpadFromNetwork(id), {
+      force: options.force,
+      onRevalidate: value => options.onRevalidate?.(value.data),
+    });
+    return data;
+  },
 
-      return await response.json() as Launchpad;
+  async fetchLaunchpadFromNetwork(id: string): Promise<Launchpad> {
+    try {
+      console.log('Fetching launchpad:', id);
+      
+      return await requestJson<Launchpad>(`/v4/launchpads/${id}`);
     } catch (error) {
       console.error('Error fetching launchpad:', error);
-      throw new Error(`Failed to fetch launchpad details: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw toApiError(error);
     }
   },
 
-  // Fallback method for simple launch fetching
-  async fetchLaunchesSimple(): Promise<Launch[]> {
+  // Fetch every launchpad, served from the offline cache when possible
+  async fetchLaunchpads(options: FetchOptions<Launchpad[]> = {}): Promise<Launchpad[]> {
+    const { data } = await cachedFetch('launchpads', () => this.fetchLaunchpadsFromNetwork(), {
+      force: options.force,
+      onRevalidate: value => options.onRevalidate?.(value.data),
+    });
+    return data;
+  },
+
+  // Pad names by id for sorting; without them launchpad order falls back to date
+  async fetchLaunchpadNames(): Promise<Record<string, string>> {
     try {
-      console.log('Using fallback method to fetch launches');
-      
-      const response = await fetchWithTimeout(`${SPACEX_API_BASE}/v5/launches`, {
-        headers: { 
-          'Accept': 'application/json',
-          'User-Agent': 'SpaceX-Explorer-App/1.0'
-        },
-      });
+      const launchpads = await this.fetchLaunchpads();
+      return Object.fromEntries(launchpads.map(launchpad => [launchpad.id, launchpad.name]));
+    } catch (error) {
+      console.error('Error fetching launchpad names for sorting:', error);
+      return {};
+    }
+  },
+
+  async fetchLaunchpadsFromNetwork(): Promise<Launchpad[]> {
+    try {
+      console.log('Fetching all launchpads');
+
+      return await requestJson<Launchpad[]>(`/v4/launchpads`);
+    } catch (error) {
+      console.error('Error fetching launchpads:', error);
+      throw toApiError(error);
+    }
+  },
+
+  // Fetch rocket details by ID, served from the offline cache when possible
+  async fetchRocket(id: string, options: FetchOptions<Rocket> = {}): Promise<Rocket> {
+    const { data } = await cachedFetch(`rocket:${id}`, () => this.fetchRocketFromNetwork(id), {
+      force: options.force,
+      onRevalidate: value => options.onRevalidate?.(value.data),
+    });
+    return data;
+  },
+
+  async fetchRocketFromNetwork(id: string): Promise<Rocket> {
+    try {
+      console.log('Fetching rocket:', id);
+
+      return await requestJson<Rocket>(`/v4/rockets/${id}`);
+    } catch (error) {
+      console.error('Error fetching rocket:', error);
+      throw toApiError(error);
+    }
+  },
+
+  // Fetch every rocket, served from the offline cache when possible
+  async fetchRockets(options: FetchOptions<Rocket[]> = {}): Promise<Rocket[]> {
+    const { data } = await cachedFetch('rockets', () => this.fetchRocketsFromNetwork(), {
+      force: options.force,
+      onRevalidate: value => options.onRevalidate?.(value.data),
+    });
+    return data;
+  },
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+  async fetchRocketsFromNetwork(): Promise<Rocket[]> {
+    try {
+      console.log('Fetching all rockets');
+
+      return await requestJson<Rocket[]>(`/v4/rockets`);
+    } catch (error) {
+      console.error('Error fetching rockets:', error);
+      throw toApiError(error);
+    }
+  },
+
+  // Fetch payload details by ID, served from the offline cache when possible
+  async fetchPayload(id: string, options: FetchOptions<Payload> = {}): Promise<Payload> {
+    const { data } = await cachedFetch(`payload:${id}`, () => this.fetchPayloadFromNetwork(id), {
+      force: options.force,
+      onRevalidate: value => options.onRevalidate?.(value.data),
+    });
+    return data;
+  },
+
+  async fetchPayloadFromNetwork(id: string): Promise<Payload> {
+    try {
+      console.log('Fetching payload:', id);
+
+      return await requestJson<Payload>(`/v4/payloads/${id}`);
+    } catch (error) {
+      console.error('Error fetching payload:', error);
+      throw toApiError(error);
+    }
+  },
+
+  // Fetch a single launch by ID, served from the offline cache when possible
+  async fetchLaunch(id: string, options: FetchOptions<Launch> = {}): Promise<Launch> {
+    const { data } = await cachedFetch(`launch:${id}`, () => this.fetchLaunchFromNetwork(id), {
+      force: options.force,
+      onRevalidate: value => options.onRevalidate?.(value.data),
+    });
+    return data;
+  },
+
+  async fetchLaunchFromNetwork(id: string): Promise<Launch> {
+    try {
+      console.log('Fetching launch:', id);
+
+      return await requestJson<Launch>(`/v5/launches/${id}`);
+    } catch (err) {
+      const error = toApiError(err);
+      console.error('Error fetching launch:', error);
+      if (error.info.kind === 'http' && error.info.status === 404) {
+        throw new ApiError(error.info, 'Launch not found');
       }
+      throw error;
+    }
+  },
 
-      return await response.json() as Launch[];
+  // Fallback method for simple launch fetching
+  async fetchLaunchesSimple(signal?: AbortSignal): Promise<Launch[]> {
+    try {
+      console.log('Using fallback method to fetch launches');
+      
+      return await requestJson<Launch[]>(`/v5/launches`, { signal });
     } catch (error) {
       console.error('Error fetching launches (simple):', error);
-      throw new Error('Failed to fetch launches from SpaceX API. Please check your internet connection and try again.');
+      throw toApiError(error);
     }
   }
 }; 
\ No newline at end of file
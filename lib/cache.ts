@@ -0,0 +1,153 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CacheMeta } from './types';
+
+const STORAGE_PREFIX = 'spacex-cache:';
+const INDEX_KEY = `${STORAGE_PREFIX}__index`;
+
+type CacheEntry<T> = {
+  data: T;
+  timestamp: number; // When the data was fetched from the network
+};
+
+export type CacheConfig = {
+  ttl: number;        // Milliseconds before an entry is considered stale
+  maxEntries: number; // Oldest entries are evicted beyond this
+};
+
+export type CacheOptions<T> = {
+  force?: boolean; // Skip a fresh cache hit and go to the network
+  onRevalidate?: (value: CachedValue<T>) => void; // Called when a background refresh settles
+  signal?: AbortSignal; // A cancelled request is neither an offline fallback nor a revalidation
+};
+
+export type CachedValue<T> = {
+  data: T;
+  meta: CacheMeta | null; // null when the data came straight from the network
+};
+
+const config: CacheConfig = {
+  ttl: 5 * 60 * 1000,
+  maxEntries: 200,
+};
+
+// In-memory mirror so repeated reads don't hit storage
+const memory = new Map<string, CacheEntry<unknown>>();
+let index: Record<string, number> | null = null;
+
+export function configureCache(options: Partial<CacheConfig>) {
+  Object.assign(config, options);
+}
+
+const loadIndex = async (): Promise<Record<string, number>> => {
+  if (index) return index;
+  try {
+    const raw = await AsyncStorage.getItem(INDEX_KEY);
+    index = raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error('Failed to read cache index:', error);
+    index = {};
+  }
+  return index!;
+};
+
+const readEntry = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  if (memory.has(key)) {
+    return memory.get(key) as CacheEntry<T>;
+  }
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_PREFIX + key);
+    if (!raw) return null;
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    memory.set(key, entry);
+    return entry;
+  } catch (error) {
+    console.error('Failed to read cache entry:', key, error);
+    return null;
+  }
+};
+
+const writeEntry = async <T>(key: string, data: T) => {
+  const entry: CacheEntry<T> = { data, timestamp: Date.now() };
+  memory.set(key, entry);
+
+  try {
+    const entries = await loadIndex();
+    entries[key] = entry.timestamp;
+
+    // Evict the oldest entries once we are over the size cap
+    const keys = Object.keys(entries).sort((a, b) => entries[a] - entries[b]);
+    const evicted = keys.slice(0, Math.max(0, keys.length - config.maxEntries));
+    evicted.forEach(evictedKey => {
+      delete entries[evictedKey];
+      memory.delete(evictedKey);
+    });
+
+    await AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+    if (evicted.length > 0) {
+      await AsyncStorage.multiRemove(evicted.map(evictedKey => STORAGE_PREFIX + evictedKey));
+    }
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error('Failed to write cache entry:', key, error);
+  }
+};
+
+const metaFor = (entry: CacheEntry<unknown>, offline: boolean): CacheMeta => ({
+  timestamp: entry.timestamp,
+  stale: Date.now() - entry.timestamp > config.ttl,
+  offline,
+});
+
+// Stale-while-revalidate lookup:
+// - fresh entry: served from cache without touching the network
+// - stale entry: served immediately, refreshed in the background
+// - no entry (or forced): network first, falling back to any cached copy when offline
+export async function cachedFetch<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: CacheOptions<T> = {}
+): Promise<CachedValue<T>> {
+  const entry = await readEntry<T>(key);
+
+  if (entry && !options.force) {
+    const meta = metaFor(entry, false);
+
+    if (meta.stale) {
+      fetcher()
+        .then(async data => {
+          await writeEntry(key, data);
+          options.onRevalidate?.({ data, meta: null });
+        })
+        .catch(error => {
+          if (options.signal?.aborted) return;
+          console.log('Background refresh failed, keeping cached data:', key, error);
+          options.onRevalidate?.({ data: entry.data, meta: metaFor(entry, true) });
+        });
+    }
+
+    return { data: entry.data, meta };
+  }
+
+  try {
+    const data = await fetcher();
+    await writeEntry(key, data);
+    return { data, meta: null };
+  } catch (error) {
+    if (entry && !options.signal?.aborted) {
+      console.log('Network request failed, serving cached data:', key);
+      return { data: entry.data, meta: metaFor(entry, true) };
+    }
+    throw error;
+  }
+}
+
+export async function clearCache() {
+  const entries = await loadIndex();
+  memory.clear();
+  index = {};
+  try {
+    await AsyncStorage.multiRemove([...Object.keys(entries).map(key => STORAGE_PREFIX + key), INDEX_KEY]);
+  } catch (error) {
+    console.error('Failed to clear cache:', error);
+  }
+}
@@ -0,0 +1,151 @@
+import { DatePrecision, Launch, Launchpad } from './types';
+
+export const CALENDAR_MIME_TYPE = 'text/calendar';
+export const CALENDAR_UTI = 'com.apple.ical.ics';
+
+// Launch ids never change, so re-exported events replace the ones already imported
+const UID_DOMAIN = 'spacex-explorer.app';
+const DEFAULT_EVENT_SECONDS = 60 * 60;
+// iCalendar lines are capped at 75 octets; longer ones continue on a line starting with a space
+const MAX_LINE_OCTETS = 75;
+
+// How many months an all-day event spans when only the month or coarser is known
+const PRECISION_MONTHS: Partial<Record<DatePrecision, number>> = {
+  month: 1,
+  quarter: 3,
+  half: 6,
+  year: 12,
+};
+
+const PRECISION_NOTES: Partial<Record<DatePrecision, string>> = {
+  day: 'Launch time not yet announced.',
+  month: 'Launch day not yet announced; scheduled for this month.',
+  quarter: 'Launch date not yet announced; scheduled for this quarter.',
+  half: 'Launch date not yet announced; scheduled for this half of the year.',
+  year: 'Launch date not yet announced; scheduled for this year.',
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const formatDate = (date: Date) => {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+};
+
+const formatDateTime = (date: Date) => {
+  return `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+const escapeText = (value: string) => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+const utf8Length = (char: string) => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+};
+
+// Split on whole characters so multi-byte ones (emoji in mission names) stay intact
+const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  Array.from(line).forEach(char => {
+    const length = utf8Length(char);
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + length > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += length;
+  });
+
+  lines.push(current);
+  return lines.join('\r\n ');
+};
+
+// DTSTART/DTEND for the launch, as precise as the schedule allows
+const getEventTiming = (launch: Launch): string[] => {
+  const start = new Date(launch.date_utc);
+
+  if (launch.date_precision === 'hour') {
+    const seconds = launch.window && launch.window > 0 ? launch.window : DEFAULT_EVENT_SECONDS;
+    const end = new Date(start.getTime() + seconds * 1000);
+    return [`DTSTART:${formatDateTime(start)}`, `DTEND:${formatDateTime(end)}`];
+  }
+
+  const months = PRECISION_MONTHS[launch.date_precision];
+  if (months) {
+    // Span the whole quarter, half or year the date falls in, not the months after it
+    const firstMonth = Math.floor(start.getUTCMonth() / months) * months;
+    const first = new Date(Date.UTC(start.getUTCFullYear(), firstMonth, 1));
+    const after = new Date(Date.UTC(start.getUTCFullYear(), firstMonth + months, 1));
+    return [`DTSTART;VALUE=DATE:${formatDate(first)}`, `DTEND;VALUE=DATE:${formatDate(after)}`];
+  }
+
+  // Day precision: an all-day event on the scheduled UTC date
+  const nextDay = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 1));
+  return [`DTSTART;VALUE=DATE:${formatDate(start)}`, `DTEND;VALUE=DATE:${formatDate(nextDay)}`];
+};
+
+export function getLaunchEventUid(launch: Launch): string {
+  return `launch-${launch.id}@${UID_DOMAIN}`;
+}
+
+// One VEVENT, unfolded; buildCalendar folds and joins the lines
+const buildEventLines = (launch: Launch, launchpad: Launchpad | undefined, stamp: Date): string[] => {
+  const description = [
+    PRECISION_NOTES[launch.date_precision],
+    launch.details,
+    launch.links.webcast ? `Webcast: ${launch.links.webcast}` : null,
+  ].filter(Boolean).join('\n\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${getLaunchEventUid(launch)}`,
+    `DTSTAMP:${formatDateTime(stamp)}`,
+    ...getEventTiming(launch),
+    `SUMMARY:${escapeText(`SpaceX launch: ${launch.name}`)}`,
+    ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+    ...(launchpad ? [
+      `LOCATION:${escapeText(`${launchpad.name}, ${launchpad.locality}`)}`,
+      `GEO:${launchpad.latitude};${launchpad.longitude}`,
+    ] : []),
+    ...(launch.links.webcast ? [`URL:${launch.links.webcast}`] : []),
+    `STATUS:${launch.date_precision === 'hour' && !launch.tbd ? 'CONFIRMED' : 'TENTATIVE'}`,
+    'END:VEVENT',
+  ];
+};
+
+// An iCalendar (.ics) document with one event per launch
+export function buildCalendar(launches: Launch[], launchpads: Launchpad[], stamp: Date = new Date()): string {
+  const launchpadsById = new Map(launchpads.map(launchpad => [launchpad.id, launchpad]));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SpaceX Explorer//Launches//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:SpaceX Launches',
+    ...launches.flatMap(launch => buildEventLines(launch, launchpadsById.get(launch.launchpad), stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Safe file name for a single launch's event, e.g. "crew-1.ics"
+export function getCalendarFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'launch'}.ics`;
+}
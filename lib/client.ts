@@ -0,0 +1,47 @@
+import Constants from 'expo-constants';
+import { createHttpClient, DEFAULT_BASE_URL } from './httpClient';
+import { createMemoryClient } from './memoryClient';
+
+export type ClientRequest = {
+  method?: 'GET' | 'POST';
+  body?: unknown;        // Sent as JSON
+  signal?: AbortSignal;  // Cancels the request with an 'aborted' ApiError
+  timeout?: number;      // Milliseconds
+  retry?: boolean;       // Retry transient failures with backoff (default true)
+};
+
+// Transport behind lib/api.ts; every failure rejects with an ApiError
+export interface SpaceXClient {
+  request<T>(path: string, request?: ClientRequest): Promise<T>;
+}
+
+// `expo.extra.spacexApi` in app.json
+type SpaceXApiConfig = {
+  source?: 'http' | 'memory';
+  baseUrl?: string;
+};
+
+const createConfiguredClient = (): SpaceXClient => {
+  const config = (Constants.expoConfig?.extra?.spacexApi ?? {}) as SpaceXApiConfig;
+
+  if (config.source === 'memory') {
+    console.log('Using in-memory SpaceX API fixtures');
+    return createMemoryClient();
+  }
+
+  return createHttpClient(config.baseUrl ?? DEFAULT_BASE_URL);
+};
+
+let client: SpaceXClient | null = null;
+
+export function getSpaceXClient(): SpaceXClient {
+  if (!client) {
+    client = createConfiguredClient();
+  }
+  return client;
+}
+
+// Swap the data source, e.g. for tests or a demo build
+export function setSpaceXClient(next: SpaceXClient) {
+  client = next;
+}
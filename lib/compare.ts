@@ -0,0 +1,103 @@
+import { calculateDistance } from './geo';
+import { getLaunchStatus, STATUS_LABELS } from './stats';
+import { Launch, Launchpad, Payload, Rocket } from './types';
+
+// More columns than this don't fit side by side on a phone
+export const MAX_COMPARED_LAUNCHES = 3;
+
+export type ComparedLaunch = {
+  launch: Launch;
+  launchpad: Launchpad | null;
+  rocket: Rocket | null;
+  payloads: Payload[];
+};
+
+export type ComparisonRow = {
+  key: string;
+  label: string;
+  values: string[];  // One per launch, in column order
+  differs: boolean;  // Not every launch has the same value
+};
+
+export type PadDistance = {
+  from: string;      // Launch names
+  to: string;
+  distance: number;  // Kilometers, 0 for launches from the same pad
+};
+
+const MISSING = '—';
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+const getPayloadMass = (payloads: Payload[]) => {
+  const masses = payloads.map(payload => payload.mass_kg).filter((mass): mass is number => mass !== null);
+  if (masses.length === 0) return MISSING;
+  return `${masses.reduce((sum, mass) => sum + mass, 0).toLocaleString('en-US')} kg`;
+};
+
+const getOrbits = (payloads: Payload[]) => {
+  const orbits = Array.from(new Set(payloads.map(payload => payload.orbit).filter(Boolean)));
+  return orbits.length > 0 ? orbits.join(', ') : MISSING;
+};
+
+const getCoreReuse = (launch: Launch) => {
+  if (launch.cores.length === 0) return MISSING;
+
+  if (launch.cores.length === 1) {
+    const [core] = launch.cores;
+    if (core.reused === true) return core.flight ? `Reused (flight ${core.flight})` : 'Reused';
+    if (core.reused === false) return 'New booster';
+    return MISSING;
+  }
+
+  // Falcon Heavy and friends fly several cores
+  const reused = launch.cores.filter(core => core.reused === true).length;
+  return `${reused} of ${launch.cores.length} reused`;
+};
+
+// Side-by-side rows for the compare screen, flagging the ones that differ
+export function buildComparison(items: ComparedLaunch[]): ComparisonRow[] {
+  const row = (key: string, label: string, getValue: (item: ComparedLaunch) => string): ComparisonRow => {
+    const values = items.map(getValue);
+    return { key, label, values, differs: new Set(values).size > 1 };
+  };
+
+  return [
+    row('date', 'Date', item => formatDate(item.launch.date_utc)),
+    row('outcome', 'Outcome', item => STATUS_LABELS[getLaunchStatus(item.launch)]),
+    row('launchpad', 'Launchpad', item => item.launchpad?.name ?? MISSING),
+    row('rocket', 'Rocket', item => item.rocket?.name ?? MISSING),
+    row('payloadMass', 'Payload mass', item => getPayloadMass(item.payloads)),
+    row('orbit', 'Orbit', item => getOrbits(item.payloads)),
+    row('coreReuse', 'Core reuse', item => getCoreReuse(item.launch)),
+  ];
+}
+
+// Distance between the launchpads of every pair of launches
+export function getPadDistances(items: ComparedLaunch[]): PadDistance[] {
+  const distances: PadDistance[] = [];
+
+  items.forEach((first, i) => {
+    items.slice(i + 1).forEach(second => {
+      if (!first.launchpad || !second.launchpad) return;
+      distances.push({
+        from: first.launch.name,
+        to: second.launch.name,
+        distance: calculateDistance(
+          first.launchpad.latitude,
+          first.launchpad.longitude,
+          second.launchpad.latitude,
+          second.launchpad.longitude
+        ),
+      });
+    });
+  });
+
+  return distances;
+}
@@ -0,0 +1,53 @@
+import { DatePrecision } from './types';
+
+export type Countdown = {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  elapsed: boolean; // The target time has passed
+};
+
+export function getCountdown(targetUtc: string, now: number = Date.now()): Countdown {
+  const diff = new Date(targetUtc).getTime() - now;
+  const totalSeconds = Math.max(0, Math.floor(Math.abs(diff) / 1000));
+
+  return {
+    days: Math.floor(totalSeconds / 86400),
+    hours: Math.floor((totalSeconds % 86400) / 3600),
+    minutes: Math.floor((totalSeconds % 3600) / 60),
+    seconds: totalSeconds % 60,
+    elapsed: diff <= 0,
+  };
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Format as a launch-style clock, e.g. "T-3d 04:12:09" or "T+00:05:30"
+export function formatCountdown(countdown: Countdown): string {
+  const sign = countdown.elapsed ? 'T+' : 'T-';
+  const days = countdown.days > 0 ? `${countdown.days}d ` : '';
+  return `${sign}${days}${pad(countdown.hours)}:${pad(countdown.minutes)}:${pad(countdown.seconds)}`;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// "No earlier than" label for launches not yet scheduled to the hour, e.g. "NET Q3 2026"
+export function formatNetDate(targetUtc: string, precision: DatePrecision): string {
+  const date = new Date(targetUtc);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  switch (precision) {
+    case 'year':
+      return `NET ${year}`;
+    case 'half':
+      return `NET H${Math.floor(month / 6) + 1} ${year}`;
+    case 'quarter':
+      return `NET Q${Math.floor(month / 3) + 1} ${year}`;
+    case 'month':
+      return `NET ${MONTHS[month]} ${year}`;
+    default:
+      return `NET ${MONTHS[month]} ${date.getUTCDate()}, ${year}`;
+  }
+}
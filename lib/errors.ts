@@ -0,0 +1,89 @@
+export type ApiErrorInfo =
+  | { kind: 'timeout'; timeoutMs: number }
+  | { kind: 'offline' }
+  | { kind: 'http'; status: number }
+  | { kind: 'parse' }
+  | { kind: 'rate-limited'; retryAfterMs: number | null } // From the Retry-After header
+  | { kind: 'aborted' }                                     // Cancelled by the caller, not a failure
+  | { kind: 'unknown' };
+
+export type ApiErrorKind = ApiErrorInfo['kind'];
+
+const DEFAULT_MESSAGES: Record<ApiErrorKind, string> = {
+  timeout: 'Request timeout - please check your internet connection',
+  offline: 'You appear to be offline. Please check your internet connection and try again.',
+  http: 'SpaceX API returned an error. Please try again later.',
+  parse: 'SpaceX API sent a response we could not read.',
+  'rate-limited': 'Too many requests to SpaceX API. Please wait a moment and try again.',
+  aborted: 'Request was cancelled',
+  unknown: 'Something went wrong. Please try again.',
+};
+
+// Every failure from lib/api.ts is an ApiError; switch on `info.kind` to handle it
+export class ApiError extends Error {
+  readonly info: ApiErrorInfo;
+
+  constructor(info: ApiErrorInfo, message: string = DEFAULT_MESSAGES[info.kind]) {
+    super(message);
+    this.name = 'ApiError';
+    this.info = info;
+  }
+
+  get kind(): ApiErrorKind {
+    return this.info.kind;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return isApiError(error) && error.info.kind === 'aborted';
+}
+
+// Normalize anything thrown while talking to the API
+export function toApiError(error: unknown): ApiError {
+  if (isApiError(error)) return error;
+
+  // fetch rejects with a TypeError when there is no network at all
+  if (error instanceof TypeError) {
+    return new ApiError({ kind: 'offline' });
+  }
+
+  if (error instanceof SyntaxError) {
+    return new ApiError({ kind: 'parse' });
+  }
+
+  return new ApiError(
+    { kind: 'unknown' },
+    error instanceof Error ? error.message : DEFAULT_MESSAGES.unknown
+  );
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// Transient failures worth another attempt; 4xx responses other than 429 won't change
+export function isRetryable(error: ApiError): boolean {
+  switch (error.info.kind) {
+    case 'timeout':
+    case 'offline':
+    case 'rate-limited':
+      return true;
+    case 'http':
+      return error.info.status >= 500;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,86 @@
+import { preferences } from './preferences';
+import { Launch } from './types';
+
+const FAVORITES_PREFERENCE_KEY = 'favorites';
+
+type Favorites = Record<string, Launch>; // Keyed by Launch.id
+type Listener = () => void;
+
+// Full Launch objects are stored so the watchlist renders offline
+let favorites: Favorites = {};
+let loadPromise: Promise<void> | null = null;
+let loaded = false;
+// Removed while storage was still loading, so the saved copy mustn't bring them back
+const removedBeforeLoad = new Set<string>();
+const listeners = new Set<Listener>();
+
+const commit = (next: Favorites) => {
+  favorites = next;
+  listeners.forEach(listener => listener());
+  preferences.set(FAVORITES_PREFERENCE_KEY, next);
+};
+
+export const favoritesStore = {
+  getSnapshot(): Favorites {
+    return favorites;
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  load(): Promise<void> {
+    if (!loadPromise) {
+      loadPromise = preferences.get<Favorites>(FAVORITES_PREFERENCE_KEY, {}).then(saved => {
+        // Keep anything toggled while storage was still loading
+        const changedBeforeLoad = Object.keys(favorites).length > 0 || removedBeforeLoad.size > 0;
+        const merged = { ...saved, ...favorites };
+        removedBeforeLoad.forEach(id => delete merged[id]);
+        removedBeforeLoad.clear();
+        loaded = true;
+
+        if (changedBeforeLoad) {
+          commit(merged);
+        } else {
+          favorites = merged;
+          listeners.forEach(listener => listener());
+        }
+      });
+    }
+    return loadPromise;
+  },
+
+  isFavorite(id: string): boolean {
+    return id in favorites;
+  },
+
+  add(launch: Launch) {
+    removedBeforeLoad.delete(launch.id);
+    commit({ ...favorites, [launch.id]: launch });
+  },
+
+  remove(id: string) {
+    if (!loaded) removedBeforeLoad.add(id);
+    if (!(id in favorites)) return;
+    const { [id]: _removed, ...rest } = favorites;
+    commit(rest);
+  },
+
+  toggle(launch: Launch) {
+    if (launch.id in favorites) {
+      favoritesStore.remove(launch.id);
+    } else {
+      favoritesStore.add(launch);
+    }
+  },
+
+  // Refresh stored copies with newer data, ignoring launches that aren't saved
+  update(launches: Launch[]) {
+    const saved = launches.filter(launch => launch.id in favorites);
+    if (saved.length === 0) return;
+    commit(saved.reduce((next, launch) => ({ ...next, [launch.id]: launch }), favorites));
+  },
+};
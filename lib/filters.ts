@@ -0,0 +1,166 @@
+import { Launch, LaunchFilters, LaunchOutcome } from './types';
+
+export const EMPTY_FILTERS: LaunchFilters = {
+  outcomes: [],
+  upcoming: null,
+  dateFrom: null,
+  dateTo: null,
+  launchpads: [],
+  rockets: [],
+};
+
+export const OUTCOME_LABELS: Record<LaunchOutcome, string> = {
+  success: 'Successful',
+  failure: 'Failed',
+  unknown: 'Unknown',
+};
+
+const OUTCOME_VALUES: Record<LaunchOutcome, boolean | null> = {
+  success: true,
+  failure: false,
+  unknown: null,
+};
+
+// Accepts YYYY-MM-DD and rejects impossible dates like 2020-02-31
+export function isValidDateInput(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+const startOfDay = (value: string) => `${value}T00:00:00.000Z`;
+const endOfDay = (value: string) => `${value}T23:59:59.999Z`;
+
+export function hasActiveFilters(filters: LaunchFilters): boolean {
+  return (
+    filters.outcomes.length > 0 ||
+    filters.upcoming !== null ||
+    filters.dateFrom !== null ||
+    filters.dateTo !== null ||
+    filters.launchpads.length > 0 ||
+    filters.rockets.length > 0
+  );
+}
+
+// Compose the MongoDB-style query understood by /v5/launches/query
+export function buildLaunchQuery(searchTerm: string | undefined, filters: LaunchFilters): Record<string, unknown> {
+  const query: Record<string, unknown> = {};
+
+  if (searchTerm) {
+    query.name = { $regex: searchTerm, $options: 'i' };
+  }
+
+  if (filters.outcomes.length > 0) {
+    query.$or = filters.outcomes.map(outcome => ({ success: OUTCOME_VALUES[outcome] }));
+  }
+
+  if (filters.upcoming !== null) {
+    query.upcoming = filters.upcoming;
+  }
+
+  if (filters.dateFrom || filters.dateTo) {
+    query.date_utc = {
+      ...(filters.dateFrom && { $gte: startOfDay(filters.dateFrom) }),
+      ...(filters.dateTo && { $lte: endOfDay(filters.dateTo) }),
+    };
+  }
+
+  if (filters.launchpads.length > 0) {
+    query.launchpad = { $in: filters.launchpads };
+  }
+
+  if (filters.rockets.length > 0) {
+    query.rocket = { $in: filters.rockets };
+  }
+
+  return query;
+}
+
+// Client-side equivalent of buildLaunchQuery for the full-catalog fallback
+export function matchesFilters(launch: Launch, filters: LaunchFilters): boolean {
+  if (filters.outcomes.length > 0) {
+    const success = launch.success ?? null;
+    if (!filters.outcomes.some(outcome => OUTCOME_VALUES[outcome] === success)) return false;
+  }
+
+  if (filters.upcoming !== null && Boolean(launch.upcoming) !== filters.upcoming) {
+    return false;
+  }
+
+  if (filters.dateFrom && launch.date_utc < startOfDay(filters.dateFrom)) return false;
+  if (filters.dateTo && launch.date_utc > endOfDay(filters.dateTo)) return false;
+
+  if (filters.launchpads.length > 0 && !filters.launchpads.includes(launch.launchpad)) {
+    return false;
+  }
+
+  if (filters.rockets.length > 0 && !filters.rockets.includes(launch.rocket)) {
+    return false;
+  }
+
+  return true;
+}
+
+// Route params for opening the launch list with filters applied, e.g. from the stats screen
+export type LaunchFilterParams = {
+  outcomes?: string;   // Comma-separated LaunchOutcome values
+  upcoming?: string;   // 'true' or 'false'
+  dateFrom?: string;
+  dateTo?: string;
+  launchpads?: string; // Comma-separated ids
+  rockets?: string;    // Comma-separated ids
+};
+
+const FILTER_PARAM_KEYS: (keyof LaunchFilterParams)[] = [
+  'outcomes',
+  'upcoming',
+  'dateFrom',
+  'dateTo',
+  'launchpads',
+  'rockets',
+];
+
+export function filtersToParams(filters: Partial<LaunchFilters>): LaunchFilterParams {
+  const resolved = { ...EMPTY_FILTERS, ...filters };
+  const params: LaunchFilterParams = {};
+
+  if (resolved.outcomes.length > 0) params.outcomes = resolved.outcomes.join(',');
+  if (resolved.upcoming !== null) params.upcoming = String(resolved.upcoming);
+  if (resolved.dateFrom) params.dateFrom = resolved.dateFrom;
+  if (resolved.dateTo) params.dateTo = resolved.dateTo;
+  if (resolved.launchpads.length > 0) params.launchpads = resolved.launchpads.join(',');
+  if (resolved.rockets.length > 0) params.rockets = resolved.rockets.join(',');
+
+  return params;
+}
+
+// Params with every filter key cleared, for router.setParams once they've been applied
+export const CLEARED_FILTER_PARAMS: Record<keyof LaunchFilterParams, undefined> = {
+  outcomes: undefined,
+  upcoming: undefined,
+  dateFrom: undefined,
+  dateTo: undefined,
+  launchpads: undefined,
+  rockets: undefined,
+};
+
+// Inverse of filtersToParams; null when the params carry no filters. Invalid values are dropped.
+export function filtersFromParams(params: LaunchFilterParams): LaunchFilters | null {
+  if (!FILTER_PARAM_KEYS.some(key => params[key])) {
+    return null;
+  }
+
+  const splitList = (value?: string) => (value ? value.split(',').filter(Boolean) : []);
+  const validDate = (value?: string) => (value && isValidDateInput(value) ? value : null);
+
+  return {
+    outcomes: splitList(params.outcomes).filter(
+      (outcome): outcome is LaunchOutcome => outcome in OUTCOME_LABELS
+    ),
+    upcoming: params.upcoming === 'true' ? true : params.upcoming === 'false' ? false : null,
+    dateFrom: validDate(params.dateFrom),
+    dateTo: validDate(params.dateTo),
+    launchpads: splitList(params.launchpads),
+    rockets: splitList(params.rockets),
+  };
+}
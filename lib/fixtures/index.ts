@@ -0,0 +1,22 @@
+import { Launch, Launchpad, Payload, Rocket } from '../types';
+import { launchpadFixtures } from './launchpads';
+import { launchFixtures } from './launches';
+import { payloadFixtures } from './payloads';
+import { rocketFixtures } from './rockets';
+
+export type SpaceXFixtures = {
+  launches: Launch[];
+  launchpads: Launchpad[];
+  rockets: Rocket[];
+  payloads: Payload[];
+};
+
+// A small, self-consistent slice of the SpaceX API for offline demos and tests
+export const fixtures: SpaceXFixtures = {
+  launches: launchFixtures,
+  launchpads: launchpadFixtures,
+  rockets: rocketFixtures,
+  payloads: payloadFixtures,
+};
+
+export { launchFixtures, launchpadFixtures, payloadFixtures, rocketFixtures };
@@ -0,0 +1,165 @@
+import { Launch } from '../types';
+
+const FALCON_1 = '5e9d0d95eda69955f709d1eb';
+const FALCON_9 = '5e9d0d95eda69973a809d1ec';
+const KWAJALEIN = '5e9e4502f5090995de566f86';
+const SLC_40 = '5e9e4501f509094ba4566f84';
+const LC_39A = '5e9e4502f509094188566f88';
+const SLC_4E = '5e9e4502f509092b78566f87';
+
+// Fills in the fields most fixtures leave at their defaults
+const makeLaunch = (launch: Pick<Launch, 'id' | 'name' | 'flight_number' | 'date_utc' | 'rocket' | 'launchpad'> & Partial<Launch>): Launch => ({
+  date_unix: Math.floor(Date.parse(launch.date_utc) / 1000),
+  date_local: launch.date_utc.replace('.000Z', '+00:00'),
+  date_precision: 'hour',
+  static_fire_date_utc: null,
+  static_fire_date_unix: null,
+  net: false,
+  window: 0,
+  tbd: false,
+  details: null,
+  links: {
+    patch: { small: null, large: null },
+    reddit: { campaign: null, launch: null, media: null, recovery: null },
+    flickr: { small: [], original: [] },
+    presskit: null,
+    webcast: null,
+    youtube_id: null,
+    article: null,
+    wikipedia: null,
+  },
+  success: true,
+  failures: [],
+  upcoming: false,
+  crew: [],
+  ships: [],
+  capsules: [],
+  payloads: [],
+  cores: [],
+  fairings: null,
+  auto_update: true,
+  launch_library_id: null,
+  ...launch,
+});
+
+export const launchFixtures: Launch[] = [
+  makeLaunch({
+    id: '5eb87cd9ffd86e000604b32a',
+    payloads: ['5eb0e4b5b6c3bb0006eeb1e1'],
+    name: 'FalconSat',
+    flight_number: 1,
+    date_utc: '2006-03-24T22:30:00.000Z',
+    rocket: FALCON_1,
+    launchpad: KWAJALEIN,
+    success: false,
+    failures: [{ time: 33, altitude: null, reason: 'merlin engine failure' }],
+    details: 'Engine failure at 33 seconds and loss of vehicle',
+    links: {
+      patch: {
+        small: 'https://images2.imgbox.com/94/f2/NN6Ph45r_o.png',
+        large: 'https://images2.imgbox.com/5b/02/QcxHUb5V_o.png',
+      },
+      flickr: { small: [], original: [] },
+      webcast: 'https://www.youtube.com/watch?v=0a_00nJ_Y88',
+      youtube_id: '0a_00nJ_Y88',
+      article: 'https://www.space.com/2196-spacex-inaugural-falcon-1-rocket-lost-launch.html',
+      wikipedia: 'https://en.wikipedia.org/wiki/DemoSat',
+    },
+    cores: [{
+      core: '5e9e289df35918033d3b2623',
+      flight: 1,
+      gridfins: false,
+      legs: false,
+      reused: false,
+      landing_attempt: false,
+      landing_success: null,
+      landing_type: null,
+      landpad: null,
+    }],
+  }),
+  makeLaunch({
+    id: '5eb87cdbffd86e000604b32d',
+    name: 'RatSat',
+    flight_number: 4,
+    date_utc: '2008-09-28T23:15:00.000Z',
+    rocket: FALCON_1,
+    launchpad: KWAJALEIN,
+    details: 'Ratsat was carried to orbit on the first successful orbital launch of any privately funded and developed, liquid-propelled carrier rocket.',
+  }),
+  makeLaunch({
+    id: '5eb87cdeffd86e000604b330',
+    name: 'COTS 1',
+    flight_number: 7,
+    date_utc: '2010-12-08T15:43:00.000Z',
+    rocket: FALCON_9,
+    launchpad: SLC_40,
+    details: 'SpaceX becomes the first private company to successfully launch, orbit, and recover a spacecraft.',
+  }),
+  makeLaunch({
+    id: '5eb87d0dffd86e000604b35b',
+    name: 'Iridium NEXT Mission 1',
+    flight_number: 36,
+    date_utc: '2017-01-14T17:54:00.000Z',
+    rocket: FALCON_9,
+    launchpad: SLC_4E,
+    cores: [{
+      core: '5e9e28a0f3591817f23b2663',
+      flight: 1,
+      gridfins: true,
+      legs: true,
+      reused: false,
+      landing_attempt: true,
+      landing_success: true,
+      landing_type: 'ASDS',
+      landpad: '5e9e3032383ecb90a834e7c8',
+    }],
+  }),
+  makeLaunch({
+    id: '5eb87d42ffd86e000604b384',
+    payloads: ['5eb0e4d1b6c3bb0006eeb266'],
+    name: 'CRS-20',
+    flight_number: 91,
+    date_utc: '2020-03-07T04:50:31.000Z',
+    rocket: FALCON_9,
+    launchpad: SLC_40,
+    details: 'SpaceX\'s 20th and final Crew Resupply Mission under the original NASA CRS contract.',
+    cores: [{
+      core: '5e9e28a2f359183e8d3b2677',
+      flight: 2,
+      gridfins: true,
+      legs: true,
+      reused: true,
+      landing_attempt: true,
+      landing_success: true,
+      landing_type: 'RTLS',
+      landpad: '5e9e3032383ecb267a34e7c7',
+    }],
+  }),
+  makeLaunch({
+    id: '5ed983aa1f30554030d45c31',
+    payloads: ['5eb0e4d2b6c3bb0006eeb274'],
+    name: 'Crew-1',
+    flight_number: 107,
+    date_utc: '2020-11-16T00:27:00.000Z',
+    rocket: FALCON_9,
+    launchpad: LC_39A,
+    details: 'SpaceX launches the first operational crew rotation mission of Crew Dragon to the International Space Station.',
+    crew: [
+      { crew: '5fe3ba5fb3467846b324216a', role: 'Commander' },
+      { crew: '5fe3bb21b3467846b324216b', role: 'Pilot' },
+    ],
+  }),
+  makeLaunch({
+    id: '62f3b4ff0f55c50e192a4e6b',
+    name: 'Transporter-99',
+    flight_number: 999,
+    date_utc: '2099-06-01T00:00:00.000Z',
+    date_precision: 'month',
+    rocket: FALCON_9,
+    launchpad: SLC_40,
+    net: true,
+    tbd: true,
+    success: null,
+    upcoming: true,
+  }),
+];
@@ -0,0 +1,72 @@
+import { Launchpad } from '../types';
+
+export const launchpadFixtures: Launchpad[] = [
+  {
+    id: '5e9e4502f5090995de566f86',
+    name: 'Kwajalein Atoll',
+    full_name: 'Kwajalein Atoll Omelek Island',
+    status: 'retired',
+    locality: 'Omelek Island',
+    region: 'Marshall Islands',
+    timezone: 'Pacific/Kwajalein',
+    latitude: 9.0477206,
+    longitude: 167.7431292,
+    launch_attempts: 2,
+    launch_successes: 1,
+    details: 'SpaceX launched the Falcon 1 from Omelek Island before moving to Cape Canaveral.',
+    images: { large: ['https://i.imgur.com/CSgK2uJ.png'] },
+    rockets: ['5e9d0d95eda69955f709d1eb'],
+    launches: ['5eb87cd9ffd86e000604b32a', '5eb87cdbffd86e000604b32d'],
+  },
+  {
+    id: '5e9e4501f509094ba4566f84',
+    name: 'CCSFS SLC 40',
+    full_name: 'Cape Canaveral Space Force Station Space Launch Complex 40',
+    status: 'active',
+    locality: 'Cape Canaveral',
+    region: 'Florida',
+    timezone: 'America/New_York',
+    latitude: 28.5618571,
+    longitude: -80.577366,
+    launch_attempts: 2,
+    launch_successes: 2,
+    details: 'SpaceX\'s primary Falcon 9 pad, where all east coast Falcon 9s launched prior to 2017.',
+    images: { large: ['https://i.imgur.com/9oEMXwa.png'] },
+    rockets: ['5e9d0d95eda69973a809d1ec'],
+    launches: ['5eb87cdeffd86e000604b330', '5eb87d42ffd86e000604b384', '62f3b4ff0f55c50e192a4e6b'],
+  },
+  {
+    id: '5e9e4502f509094188566f88',
+    name: 'KSC LC 39A',
+    full_name: 'Kennedy Space Center Historic Launch Complex 39A',
+    status: 'active',
+    locality: 'Cape Canaveral',
+    region: 'Florida',
+    timezone: 'America/New_York',
+    latitude: 28.6080585,
+    longitude: -80.6039558,
+    launch_attempts: 1,
+    launch_successes: 1,
+    details: 'NASA historic launch pad that launched most of the Saturn V and Space Shuttle missions.',
+    images: { large: ['https://i.imgur.com/Ko1lpYj.png'] },
+    rockets: ['5e9d0d95eda69973a809d1ec'],
+    launches: ['5ed983aa1f30554030d45c31'],
+  },
+  {
+    id: '5e9e4502f509092b78566f87',
+    name: 'VAFB SLC 4E',
+    full_name: 'Vandenberg Space Force Base Space Launch Complex 4E',
+    status: 'active',
+    locality: 'Vandenberg Space Force Base',
+    region: 'California',
+    timezone: 'America/Los_Angeles',
+    latitude: 34.632093,
+    longitude: -120.610829,
+    launch_attempts: 1,
+    launch_successes: 1,
+    details: 'SpaceX\'s west coast pad for polar orbits and sun synchronous orbits.',
+    images: { large: ['https://i.imgur.com/7ACmN8v.png'] },
+    rockets: ['5e9d0d95eda69973a809d1ec'],
+    launches: ['5eb87d0dffd86e000604b35b'],
+  },
+];
@@ -0,0 +1,43 @@
+import { Payload } from '../types';
+
+export const payloadFixtures: Payload[] = [
+  {
+    id: '5eb0e4b5b6c3bb0006eeb1e1',
+    name: 'FalconSAT-2',
+    type: 'Satellite',
+    reused: false,
+    launch: '5eb87cd9ffd86e000604b32a',
+    customers: ['DARPA'],
+    nationalities: ['United States'],
+    manufacturers: ['SSTL'],
+    mass_kg: 20,
+    mass_lbs: 43,
+    orbit: 'LEO',
+  },
+  {
+    id: '5eb0e4d1b6c3bb0006eeb266',
+    name: 'CRS-20',
+    type: 'Dragon 1.1',
+    reused: true,
+    launch: '5eb87d42ffd86e000604b384',
+    customers: ['NASA (CRS)'],
+    nationalities: ['United States'],
+    manufacturers: ['SpaceX'],
+    mass_kg: 1977,
+    mass_lbs: 4359,
+    orbit: 'ISS',
+  },
+  {
+    id: '5eb0e4d2b6c3bb0006eeb274',
+    name: 'Crew-1',
+    type: 'Crew Dragon',
+    reused: false,
+    launch: '5ed983aa1f30554030d45c31',
+    customers: ['NASA (CCP)'],
+    nationalities: ['United States'],
+    manufacturers: ['SpaceX'],
+    mass_kg: 12519,
+    mass_lbs: 27600,
+    orbit: 'ISS',
+  },
+];
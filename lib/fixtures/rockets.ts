@@ -0,0 +1,105 @@
+import { Rocket } from '../types';
+
+export const rocketFixtures: Rocket[] = [
+  {
+    id: '5e9d0d95eda69955f709d1eb',
+    name: 'Falcon 1',
+    type: 'rocket',
+    active: false,
+    stages: 2,
+    boosters: 0,
+    cost_per_launch: 6700000,
+    success_rate_pct: 40,
+    first_flight: '2006-03-24',
+    country: 'Republic of the Marshall Islands',
+    company: 'SpaceX',
+    height: { meters: 22.25, feet: 73 },
+    diameter: { meters: 1.68, feet: 5.5 },
+    mass: { kg: 30146, lb: 66460 },
+    payload_weights: [{ id: 'leo', name: 'Low Earth Orbit', kg: 450, lb: 992 }],
+    first_stage: {
+      reusable: false,
+      engines: 1,
+      fuel_amount_tons: 44.3,
+      burn_time_sec: 169,
+      thrust_sea_level: { kN: 420, lbf: 94000 },
+      thrust_vacuum: { kN: 480, lbf: 110000 },
+    },
+    second_stage: {
+      reusable: false,
+      engines: 1,
+      fuel_amount_tons: 3.38,
+      burn_time_sec: 378,
+      thrust: { kN: 31, lbf: 7000 },
+    },
+    engines: {
+      number: 1,
+      type: 'merlin',
+      version: '1C',
+      layout: 'single',
+      isp: { sea_level: 267, vacuum: 304 },
+      engine_loss_max: 0,
+      propellant_1: 'liquid oxygen',
+      propellant_2: 'RP-1 kerosene',
+      thrust_sea_level: { kN: 420, lbf: 94000 },
+      thrust_vacuum: { kN: 480, lbf: 110000 },
+      thrust_to_weight: 96,
+    },
+    landing_legs: { number: 0, material: null },
+    flickr_images: ['https://imgur.com/DaCfMsj.jpg'],
+    wikipedia: 'https://en.wikipedia.org/wiki/Falcon_1',
+    description: 'The Falcon 1 was an expendable launch system privately developed and manufactured by SpaceX during 2006-2009.',
+  },
+  {
+    id: '5e9d0d95eda69973a809d1ec',
+    name: 'Falcon 9',
+    type: 'rocket',
+    active: true,
+    stages: 2,
+    boosters: 0,
+    cost_per_launch: 50000000,
+    success_rate_pct: 98,
+    first_flight: '2010-06-04',
+    country: 'United States',
+    company: 'SpaceX',
+    height: { meters: 70, feet: 229.6 },
+    diameter: { meters: 3.7, feet: 12 },
+    mass: { kg: 549054, lb: 1207920 },
+    payload_weights: [
+      { id: 'leo', name: 'Low Earth Orbit', kg: 22800, lb: 50265 },
+      { id: 'gto', name: 'Geosynchronous Transfer Orbit', kg: 8300, lb: 18300 },
+    ],
+    first_stage: {
+      reusable: true,
+      engines: 9,
+      fuel_amount_tons: 385,
+      burn_time_sec: 162,
+      thrust_sea_level: { kN: 7607, lbf: 1710000 },
+      thrust_vacuum: { kN: 8227, lbf: 1849500 },
+    },
+    second_stage: {
+      reusable: false,
+      engines: 1,
+      fuel_amount_tons: 90,
+      burn_time_sec: 397,
+      thrust: { kN: 934, lbf: 210000 },
+    },
+    engines: {
+      number: 9,
+      type: 'merlin',
+      version: '1D+',
+      layout: 'octaweb',
+      isp: { sea_level: 288, vacuum: 312 },
+      engine_loss_max: 2,
+      propellant_1: 'liquid oxygen',
+      propellant_2: 'RP-1 kerosene',
+      thrust_sea_level: { kN: 845, lbf: 190000 },
+      thrust_vacuum: { kN: 914, lbf: 205500 },
+      thrust_to_weight: 180.1,
+    },
+    landing_legs: { number: 4, material: 'carbon fiber' },
+    flickr_images: ['https://farm1.staticflickr.com/929/28787338307_3453a11a77_b.jpg'],
+    wikipedia: 'https://en.wikipedia.org/wiki/Falcon_9',
+    description: 'Falcon 9 is a two-stage rocket designed and manufactured by SpaceX for the reliable and safe transport of satellites and the Dragon spacecraft into orbit.',
+  },
+];
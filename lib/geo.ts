@@ -1,3 +1,5 @@
+import { DistanceUnit, unitsStore } from './units';
+
 // Haversine formula to calculate distance between two points on Earth
 export function calculateDistance(
   lat1: number,
@@ -20,8 +22,21 @@ export function calculateDistance(
   return Math.round(distance * 100) / 100; // Round to 2 decimal places
 }
 
-// Format distance for display
-export function formatDistance(distance: number): string {
+const KM_PER_MILE = 1.609344;
+
+// Format a distance in kilometers for display, in the app-wide unit unless one is given
+export function formatDistance(distance: number, unit: DistanceUnit = unitsStore.getSnapshot()): string {
+  if (unit === 'mi') {
+    const miles = distance / KM_PER_MILE;
+    if (miles < 0.1) {
+      return `${Math.round(miles * 5280)}ft`;
+    } else if (miles < 1000) {
+      return `${Math.round(miles * 100) / 100}mi`;
+    } else {
+      return `${Math.round(miles)}mi`;
+    }
+  }
+
   if (distance < 1) {
     return `${Math.round(distance * 1000)}m`;
   } else if (distance < 1000) {
@@ -29,4 +44,86 @@ export function formatDistance(distance: number): string {
   } else {
     return `${Math.round(distance)}km`;
   }
-} 
\ No newline at end of file
+}
+
+// Initial great-circle bearing from the first point to the second, in degrees from north
+export function calculateBearing(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const phi1 = lat1 * (Math.PI / 180);
+  const phi2 = lat2 * (Math.PI / 180);
+  const dLon = (lon2 - lon1) * (Math.PI / 180);
+
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x =
+    Math.cos(phi1) * Math.sin(phi2) -
+    Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+
+  return (Math.atan2(y, x) * (180 / Math.PI) + 360) % 360;
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// Format a bearing as a compass point, e.g. "NE (47°)"
+export function formatBearing(bearing: number): string {
+  const point = COMPASS_POINTS[Math.round(bearing / 45) % COMPASS_POINTS.length];
+  return `${point} (${Math.round(bearing)}°)`;
+}
+
+export type MapRegion = {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+};
+
+export type GeoCluster<T> = {
+  id: string;
+  latitude: number;   // Centroid of the clustered points
+  longitude: number;
+  items: T[];
+};
+
+// Group points that fall into the same grid cell of the visible region.
+// The grid is `cellsAcross` cells wide, so zooming in splits clusters apart.
+export function clusterByRegion<T extends { id: string; latitude: number; longitude: number }>(
+  points: T[],
+  region: MapRegion,
+  cellsAcross: number = 8
+): GeoCluster<T>[] {
+  const latSize = region.latitudeDelta / cellsAcross;
+  const lngSize = region.longitudeDelta / cellsAcross;
+  const cells = new Map<string, T[]>();
+
+  points.forEach(point => {
+    const key = `${Math.floor(point.latitude / latSize)}:${Math.floor(point.longitude / lngSize)}`;
+    cells.set(key, [...(cells.get(key) ?? []), point]);
+  });
+
+  return Array.from(cells.values()).map(items => ({
+    id: items.map(item => item.id).join('|'),
+    latitude: items.reduce((sum, item) => sum + item.latitude, 0) / items.length,
+    longitude: items.reduce((sum, item) => sum + item.longitude, 0) / items.length,
+    items,
+  }));
+}
+
+// Smallest region that shows every point, with some padding around the edges
+export function regionForPoints(points: { latitude: number; longitude: number }[]): MapRegion {
+  const latitudes = points.map(point => point.latitude);
+  const longitudes = points.map(point => point.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLng = Math.min(...longitudes);
+  const maxLng = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.5, 0.05),
+    longitudeDelta: Math.max((maxLng - minLng) * 1.5, 0.05),
+  };
+}
@@ -0,0 +1,59 @@
+import { preferences } from './preferences';
+
+const HOME_LOCATION_PREFERENCE_KEY = 'homeLocation';
+
+export type HomeLocation = {
+  latitude: number;
+  longitude: number;
+};
+
+type Listener = () => void;
+
+// Manually entered or map-picked location, used when GPS is unavailable
+let homeLocation: HomeLocation | null = null;
+let loadPromise: Promise<void> | null = null;
+let loaded = false;
+let changedBeforeLoad = false;
+const listeners = new Set<Listener>();
+
+const commit = (next: HomeLocation | null) => {
+  if (!loaded) changedBeforeLoad = true;
+  homeLocation = next;
+  listeners.forEach(listener => listener());
+  preferences.set(HOME_LOCATION_PREFERENCE_KEY, next);
+};
+
+export const homeLocationStore = {
+  getSnapshot(): HomeLocation | null {
+    return homeLocation;
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  load(): Promise<void> {
+    if (!loadPromise) {
+      loadPromise = preferences.get<HomeLocation | null>(HOME_LOCATION_PREFERENCE_KEY, null).then(saved => {
+        // A location picked or cleared while storage was still loading wins
+        if (!changedBeforeLoad) {
+          homeLocation = saved;
+        }
+        loaded = true;
+        listeners.forEach(listener => listener());
+      });
+    }
+    return loadPromise;
+  },
+
+  set(next: HomeLocation) {
+    commit(next);
+  },
+
+  clear() {
+    commit(null);
+  },
+};
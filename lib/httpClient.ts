@@ -0,0 +1,86 @@
+import { ApiError, parseRetryAfter, toApiError } from './errors';
+import { withRetry } from './retry';
+import type { ClientRequest, SpaceXClient } from './client';
+
+export const DEFAULT_BASE_URL = 'https://api.spacexdata.com';
+
+const DEFAULT_TIMEOUT = 10000;
+
+// Helper function to create fetch with timeout; failures and non-2xx responses throw an ApiError.
+// `options.signal` cancels the request early and rejects with an 'aborted' ApiError.
+const fetchWithTimeout = async (url: string, options: RequestInit, timeout: number = DEFAULT_TIMEOUT) => {
+  const callerSignal = options.signal;
+  if (callerSignal?.aborted) {
+    throw new ApiError({ kind: 'aborted' });
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const abortFromCaller = () => controller.abort();
+  callerSignal?.addEventListener('abort', abortFromCaller);
+  
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...options,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (callerSignal?.aborted) {
+      throw new ApiError({ kind: 'aborted' });
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new ApiError({ kind: 'timeout', timeoutMs: timeout });
+    }
+    throw toApiError(error);
+  } finally {
+    clearTimeout(timeoutId);
+    callerSignal?.removeEventListener('abort', abortFromCaller);
+  }
+
+  if (response.status === 429) {
+    throw new ApiError({
+      kind: 'rate-limited',
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    });
+  }
+
+  if (!response.ok) {
+    throw new ApiError({ kind: 'http', status: response.status }, `HTTP error! status: ${response.status}`);
+  }
+
+  return response;
+};
+
+const readJson = async <T>(response: Response): Promise<T> => {
+  try {
+    return await response.json() as T;
+  } catch {
+    throw new ApiError({ kind: 'parse' });
+  }
+};
+
+// Talks to the SpaceX REST API (or a mirror of it), retrying transient failures with backoff
+export function createHttpClient(baseUrl: string = DEFAULT_BASE_URL): SpaceXClient {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    request<T>(path: string, { method = 'GET', body, signal, timeout, retry = true }: ClientRequest = {}): Promise<T> {
+      const send = async () => {
+        const response = await fetchWithTimeout(`${root}${path}`, {
+          method,
+          headers: {
+            'Accept': 'application/json',
+            'User-Agent': 'SpaceX-Explorer-App/1.0',
+            ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          },
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+          signal,
+        }, timeout);
+        return readJson<T>(response);
+      };
+
+      return retry ? withRetry(send, signal) : send();
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { Image } from 'expo-image';
+import { logger } from './logger';
+import { Launch } from './types';
+
+// Bundled fallback for launches without a photo or mission patch
+export const PLACEHOLDER_IMAGE = require('../assets/images/icon.png');
+
+// The photo shown for a launch in lists and headers: first Flickr original, then the mission patch
+export function getLaunchImageUrl(launch: Launch): string | null {
+  return (
+    launch.links.flickr?.original?.[0] ??
+    launch.links.patch?.large ??
+    launch.links.patch?.small ??
+    null
+  );
+}
+
+export function getLaunchImageSource(launch: Launch) {
+  const url = getLaunchImageUrl(launch);
+  return url ? { uri: url } : PLACEHOLDER_IMAGE;
+}
+
+// Every full-size Flickr photo of a launch, for the gallery
+export function getLaunchPhotos(launch: Launch): string[] {
+  return launch.links.flickr?.original ?? [];
+}
+
+// Warm the disk cache for a page of launches so scrolling doesn't wait on downloads
+export function prefetchLaunchImages(launches: Launch[]) {
+  const urls = launches.map(getLaunchImageUrl).filter((url): url is string => url !== null);
+  if (urls.length === 0) return;
+
+  Image.prefetch(urls, 'memory-disk').catch(err => logger.error('Failed to prefetch launch images', err));
+}
@@ -0,0 +1,103 @@
+import { getLaunchStatus, LaunchStatus } from './stats';
+import { Launch, Launchpad, Rocket } from './types';
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { mimeType: string; uti: string }> = {
+  csv: { mimeType: 'text/csv', uti: 'public.comma-separated-values-text' },
+  json: { mimeType: 'application/json', uti: 'public.json' },
+};
+
+// One flat record per launch; CSV and JSON share the same columns
+export type LaunchExportRow = {
+  id: string;
+  flight_number: number;
+  name: string;
+  date_utc: string;
+  date_precision: string;
+  outcome: LaunchStatus;
+  launchpad: string | null;
+  launchpad_locality: string | null;
+  launchpad_id: string;
+  rocket: string | null;
+  rocket_id: string;
+  cores_reused: number;
+  payload_count: number;
+  webcast: string | null;
+  details: string | null;
+};
+
+const COLUMNS: (keyof LaunchExportRow)[] = [
+  'id',
+  'flight_number',
+  'name',
+  'date_utc',
+  'date_precision',
+  'outcome',
+  'launchpad',
+  'launchpad_locality',
+  'launchpad_id',
+  'rocket',
+  'rocket_id',
+  'cores_reused',
+  'payload_count',
+  'webcast',
+  'details',
+];
+
+export function toExportRows(launches: Launch[], launchpads: Launchpad[], rockets: Rocket[]): LaunchExportRow[] {
+  const launchpadsById = new Map(launchpads.map(launchpad => [launchpad.id, launchpad]));
+  const rocketsById = new Map(rockets.map(rocket => [rocket.id, rocket]));
+
+  return launches.map(launch => {
+    const launchpad = launchpadsById.get(launch.launchpad);
+    return {
+      id: launch.id,
+      flight_number: launch.flight_number,
+      name: launch.name,
+      date_utc: launch.date_utc,
+      date_precision: launch.date_precision,
+      outcome: getLaunchStatus(launch),
+      launchpad: launchpad?.name ?? null,
+      launchpad_locality: launchpad?.locality ?? null,
+      launchpad_id: launch.launchpad,
+      rocket: rocketsById.get(launch.rocket)?.name ?? null,
+      rocket_id: launch.rocket,
+      cores_reused: launch.cores.filter(core => core.reused === true).length,
+      payload_count: launch.payloads.length,
+      webcast: launch.links.webcast ?? null,
+      details: launch.details,
+    };
+  });
+}
+
+// Quote per RFC 4180, and defuse values a spreadsheet would run as a formula
+const formatCsvValue = (value: string | number | null) => {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: LaunchExportRow[]): string {
+  const lines = [
+    COLUMNS.join(','),
+    ...rows.map(row => COLUMNS.map(column => formatCsvValue(row[column])).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function toJson(rows: LaunchExportRow[]): string {
+  return JSON.stringify(rows, null, 2);
+}
+
+export function serializeLaunches(format: ExportFormat, rows: LaunchExportRow[]): string {
+  return format === 'csv' ? toCsv(rows) : toJson(rows);
+}
+
+// e.g. "spacex-launches-2024-05-01.csv"
+export function getExportFileName(format: ExportFormat, date: Date = new Date()): string {
+  return `spacex-launches-${date.toISOString().slice(0, 10)}.${format}`;
+}
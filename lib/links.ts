@@ -0,0 +1,61 @@
+import * as Linking from 'expo-linking';
+
+// Must match `expo.scheme` in app.json
+export const APP_SCHEME = 'spacex';
+
+export type DeepLinkTarget =
+  | { type: 'launch'; id: string }
+  | { type: 'launchpad'; id: string };
+
+// Routes under app/launch and app/launchpad; the same paths work on the web
+export function launchPath(id: string) {
+  return `/launch/${encodeURIComponent(id)}`;
+}
+
+export function launchpadPath(id: string) {
+  return `/launchpad/${encodeURIComponent(id)}`;
+}
+
+export function deepLinkPath(target: DeepLinkTarget) {
+  return target.type === 'launch' ? launchPath(target.id) : launchpadPath(target.id);
+}
+
+// A leading slash would make createURL produce spacex:///launch/<id>
+const createAppUrl = (path: string) => Linking.createURL(path.replace(/^\//, ''));
+
+// spacex://launch/<id> in app builds, https://<host>/launch/<id> on the web
+export function createLaunchUrl(id: string) {
+  return createAppUrl(launchPath(id));
+}
+
+export function createLaunchpadUrl(id: string) {
+  return createAppUrl(launchpadPath(id));
+}
+
+// Recognizes launch and launchpad links in any of the app's URL forms; null for anything else
+export function parseDeepLink(url: string | null): DeepLinkTarget | null {
+  if (!url) return null;
+
+  let type: string;
+  let id: string;
+  try {
+    const parsed = Linking.parse(url);
+
+    // A custom scheme puts the first segment in the host: spacex://launch/<id>
+    const segments = [
+      ...(parsed.scheme === APP_SCHEME && parsed.hostname ? [parsed.hostname] : []),
+      ...(parsed.path ?? '').split('/'),
+    ].filter(segment => segment && segment !== '--'); // Expo Go prefixes app paths with /--/
+
+    if (segments.length !== 2) return null;
+    type = segments[0];
+    // Malformed escapes (e.g. %E0) throw
+    id = decodeURIComponent(segments[1]);
+  } catch {
+    return null;
+  }
+
+  if (type === 'launch') return { type: 'launch', id };
+  if (type === 'launchpad') return { type: 'launchpad', id };
+  return null;
+}
@@ -0,0 +1,64 @@
+import * as FileSystem from 'expo-file-system';
+import * as MediaLibrary from 'expo-media-library';
+import * as Sharing from 'expo-sharing';
+import { Share } from 'react-native';
+
+// Native save and share need a local file; photos are downloaded once into the cache directory
+const downloadToCache = async (url: string): Promise<string> => {
+  const fileName = url.split('/').pop()?.split('?')[0] || `spacex-${Date.now()}.jpg`;
+  const target = `${FileSystem.cacheDirectory}${fileName}`;
+
+  const info = await FileSystem.getInfoAsync(target);
+  if (info.exists) {
+    return target;
+  }
+
+  const result = await FileSystem.downloadAsync(url, target);
+  if (result.status !== 200) {
+    await FileSystem.deleteAsync(target, { idempotent: true });
+    throw new Error(`Download failed with status ${result.status}`);
+  }
+  return result.uri;
+};
+
+// Resolves to false when the user declines photo library access
+export async function saveImageToLibrary(url: string): Promise<boolean> {
+  const { status } = await MediaLibrary.requestPermissionsAsync(true);
+  if (status !== 'granted') {
+    return false;
+  }
+
+  const localUri = await downloadToCache(url);
+  await MediaLibrary.saveToLibraryAsync(localUri);
+  return true;
+}
+
+// Share the image file where supported, otherwise a link to it (e.g. on web)
+export async function shareImage(url: string, title?: string) {
+  if (FileSystem.cacheDirectory && await Sharing.isAvailableAsync()) {
+    const localUri = await downloadToCache(url);
+    await Sharing.shareAsync(localUri, { mimeType: 'image/jpeg', dialogTitle: title });
+    return;
+  }
+
+  await Share.share({ title, message: title ? `${title}\n${url}` : url, url });
+}
+
+type ShareFileOptions = {
+  mimeType: string;
+  uti?: string;          // iOS type identifier, e.g. com.apple.ical.ics
+  dialogTitle?: string;
+};
+
+// Write generated text (calendars, exports) to the cache and open the share sheet;
+// platforms without file sharing get the text itself
+export async function shareTextFile(fileName: string, contents: string, options: ShareFileOptions) {
+  if (FileSystem.cacheDirectory && await Sharing.isAvailableAsync()) {
+    const target = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(target, contents, { encoding: FileSystem.EncodingType.UTF8 });
+    await Sharing.shareAsync(target, options);
+    return;
+  }
+
+  await Share.share({ title: options.dialogTitle, message: contents });
+}
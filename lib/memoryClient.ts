@@ -0,0 +1,207 @@
+import type { ClientRequest, SpaceXClient } from './client';
+import { ApiError } from './errors';
+import { fixtures, SpaceXFixtures } from './fixtures';
+
+type Doc = Record<string, unknown>;
+type Query = Record<string, unknown>;
+type SortSpec = Record<string, 1 | -1 | 'asc' | 'desc'>;
+
+// The subset of the mongoose-paginate body accepted by POST /:collection/query
+export type QueryBody = {
+  query?: Query;
+  options?: {
+    page?: number;
+    limit?: number;
+    pagination?: boolean;
+    sort?: SortSpec;
+  };
+};
+
+export type QueryResult<T> = {
+  docs: T[];
+  totalDocs: number;
+  limit: number;
+  page: number;
+  totalPages: number;
+  pagingCounter: number;
+  hasPrevPage: boolean;
+  hasNextPage: boolean;
+  prevPage: number | null;
+  nextPage: number | null;
+};
+
+const DEFAULT_LIMIT = 10;
+
+const isOperatorObject = (value: unknown): value is Record<string, unknown> => {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).some(key => key.startsWith('$'))
+  );
+};
+
+// Supports dotted paths like "links.webcast"
+const getField = (doc: Doc, path: string): unknown => {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Doc)[key] : undefined),
+    doc
+  );
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a) < String(b) ? -1 : 1;
+};
+
+// Missing fields compare equal to null, like MongoDB
+const valuesEqual = (value: unknown, expected: unknown): boolean => {
+  if (Array.isArray(value)) return value.some(item => valuesEqual(item, expected));
+  if (expected === null) return value === null || value === undefined;
+  return value === expected;
+};
+
+const matchesOperators = (value: unknown, operators: Record<string, unknown>): boolean => {
+  return Object.entries(operators).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq':
+        return valuesEqual(value, operand);
+      case '$ne':
+        return !valuesEqual(value, operand);
+      case '$gt':
+        return value !== null && value !== undefined && compareValues(value, operand) > 0;
+      case '$gte':
+        return value !== null && value !== undefined && compareValues(value, operand) >= 0;
+      case '$lt':
+        return value !== null && value !== undefined && compareValues(value, operand) < 0;
+      case '$lte':
+        return value !== null && value !== undefined && compareValues(value, operand) <= 0;
+      case '$in':
+        return (operand as unknown[]).some(candidate => valuesEqual(value, candidate));
+      case '$nin':
+        return !(operand as unknown[]).some(candidate => valuesEqual(value, candidate));
+      case '$exists':
+        return (value !== undefined) === Boolean(operand);
+      case '$regex': {
+        const regex = new RegExp(String(operand), String(operators.$options ?? ''));
+        return typeof value === 'string' && regex.test(value);
+      }
+      case '$options':
+        return true; // Read alongside $regex
+      default:
+        throw new ApiError({ kind: 'http', status: 400 }, `Unsupported query operator: ${operator}`);
+    }
+  });
+};
+
+export function matchesQuery(doc: Doc, query: Query = {}): boolean {
+  return Object.entries(query).every(([key, condition]) => {
+    if (key === '$or') return (condition as Query[]).some(sub => matchesQuery(doc, sub));
+    if (key === '$and') return (condition as Query[]).every(sub => matchesQuery(doc, sub));
+    if (key === '$nor') return !(condition as Query[]).some(sub => matchesQuery(doc, sub));
+
+    const value = getField(doc, key);
+    return isOperatorObject(condition)
+      ? matchesOperators(value, condition)
+      : valuesEqual(value, condition);
+  });
+}
+
+const compareBySpec = (spec: SortSpec) => (a: Doc, b: Doc) => {
+  for (const [field, direction] of Object.entries(spec)) {
+    const order = direction === -1 || direction === 'desc' ? -1 : 1;
+    const result = compareValues(getField(a, field), getField(b, field));
+    if (result !== 0) return result * order;
+  }
+  return 0;
+};
+
+// Filter, sort and page a collection the way the SpaceX API's /query endpoint does
+export function runQuery<T extends object>(collection: T[], { query, options = {} }: QueryBody = {}): QueryResult<T> {
+  const matched = (collection as unknown as Doc[]).filter(doc => matchesQuery(doc, query));
+  if (options.sort) {
+    matched.sort(compareBySpec(options.sort));
+  }
+
+  const totalDocs = matched.length;
+  const paginate = options.pagination !== false;
+  const limit = paginate ? Math.max(1, options.limit ?? DEFAULT_LIMIT) : Math.max(1, totalDocs);
+  const page = paginate ? Math.max(1, options.page ?? 1) : 1;
+  const totalPages = Math.max(1, Math.ceil(totalDocs / limit));
+  const start = (page - 1) * limit;
+
+  return {
+    docs: matched.slice(start, start + limit) as unknown as T[],
+    totalDocs,
+    limit,
+    page,
+    totalPages,
+    pagingCounter: start + 1,
+    hasPrevPage: page > 1,
+    hasNextPage: page < totalPages,
+    prevPage: page > 1 ? page - 1 : null,
+    nextPage: page < totalPages ? page + 1 : null,
+  };
+}
+
+const COLLECTIONS: Record<string, keyof SpaceXFixtures> = {
+  '/v5/launches': 'launches',
+  '/v4/launchpads': 'launchpads',
+  '/v4/rockets': 'rockets',
+  '/v4/payloads': 'payloads',
+};
+
+// Fresh copies so callers can't mutate the fixtures between requests
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export type MemoryClientOptions = {
+  latency?: number; // Milliseconds, to make loading states visible in demos
+};
+
+// Serves the SpaceX API routes used by the app from fixtures, with no network
+export function createMemoryClient(
+  data: SpaceXFixtures = fixtures,
+  { latency = 0 }: MemoryClientOptions = {}
+): SpaceXClient {
+  const resolve = (path: string, method: string, body: unknown): unknown => {
+    const route = path.split('?')[0].replace(/\/+$/, '');
+
+    for (const [prefix, name] of Object.entries(COLLECTIONS)) {
+      const collection: object[] = data[name];
+
+      if (route === prefix && method === 'GET') {
+        return collection;
+      }
+
+      if (route === `${prefix}/query` && method === 'POST') {
+        return runQuery(collection, (body ?? {}) as QueryBody);
+      }
+
+      if (route.startsWith(`${prefix}/`) && method === 'GET') {
+        const id = route.slice(prefix.length + 1);
+        const doc = collection.find(item => (item as { id: string }).id === id);
+        if (!doc) {
+          throw new ApiError({ kind: 'http', status: 404 }, 'HTTP error! status: 404');
+        }
+        return doc;
+      }
+    }
+
+    throw new ApiError({ kind: 'http', status: 404 }, `No fixture route for ${method} ${route}`);
+  };
+
+  return {
+    async request<T>(path: string, { method = 'GET', body, signal }: ClientRequest = {}): Promise<T> {
+      if (latency > 0) {
+        await new Promise(done => setTimeout(done, latency));
+      }
+      if (signal?.aborted) {
+        throw new ApiError({ kind: 'aborted' });
+      }
+      return clone(resolve(path, method, body)) as T;
+    },
+  };
+}
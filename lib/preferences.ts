@@ -0,0 +1,24 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_PREFIX = 'spacex-pref:';
+
+// Small persisted key/value store for user settings
+export const preferences = {
+  async get<T>(key: string, fallback: T): Promise<T> {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_PREFIX + key);
+      return raw !== null ? JSON.parse(raw) as T : fallback;
+    } catch (error) {
+      console.error('Failed to read preference:', key, error);
+      return fallback;
+    }
+  },
+
+  async set<T>(key: string, value: T): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+    } catch (error) {
+      console.error('Failed to save preference:', key, error);
+    }
+  },
+};
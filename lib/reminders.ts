@@ -0,0 +1,165 @@
+import * as Notifications from 'expo-notifications';
+import { preferences } from './preferences';
+import { Launch } from './types';
+
+const REMINDERS_PREFERENCE_KEY = 'launchReminders';
+
+export type ReminderOffset = '1d' | '1h' | '10m';
+
+export const REMINDER_OPTIONS: { value: ReminderOffset; label: string; ms: number }[] = [
+  { value: '1d', label: '1 day before', ms: 24 * 60 * 60 * 1000 },
+  { value: '1h', label: '1 hour before', ms: 60 * 60 * 1000 },
+  { value: '10m', label: '10 minutes before', ms: 10 * 60 * 1000 },
+];
+
+type Listener = () => void;
+
+type ScheduledReminders = {
+  offsets: ReminderOffset[];
+  dateUtc: string;           // The launch date the notifications were scheduled against
+  notificationIds: string[];
+};
+
+let scheduled: Record<string, ScheduledReminders> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+const listeners = new Set<Listener>();
+
+// setOffsets and sync read, cancel and reschedule the same entries; running one
+// at a time keeps overlapping calls from scheduling duplicates or losing ids
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const load = async () => {
+  if (!scheduled) {
+    scheduled = await preferences.get<Record<string, ScheduledReminders>>(REMINDERS_PREFERENCE_KEY, {});
+  }
+  return scheduled;
+};
+
+const save = async () => {
+  await preferences.set(REMINDERS_PREFERENCE_KEY, scheduled);
+  listeners.forEach(listener => listener());
+};
+
+const cancelNotifications = async (notificationIds: string[]) => {
+  await Promise.all(notificationIds.map(id =>
+    Notifications.cancelScheduledNotificationAsync(id).catch(error => {
+      console.error('Failed to cancel reminder:', id, error);
+    })
+  ));
+};
+
+// Reminders need a liftoff time; a date known only to the day or month has none
+export function canScheduleReminders(launch: Launch): boolean {
+  return Boolean(launch.upcoming) && launch.date_precision === 'hour';
+}
+
+const scheduleNotifications = async (launch: Launch, offsets: ReminderOffset[]) => {
+  const launchTime = new Date(launch.date_utc).getTime();
+  const ids: string[] = [];
+
+  for (const option of REMINDER_OPTIONS) {
+    if (!offsets.includes(option.value)) continue;
+
+    // Reminders that would already have fired are skipped
+    const triggerTime = launchTime - option.ms;
+    if (triggerTime <= Date.now()) continue;
+
+    const id = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: `${launch.name} launches soon`,
+        body: `Liftoff is scheduled ${option.label.replace(' before', '')} from now.`,
+        data: { launchId: launch.id },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: new Date(triggerTime),
+      },
+    });
+    ids.push(id);
+  }
+
+  return ids;
+};
+
+export const reminders = {
+  // Called whenever the scheduled reminders change, including cancellations by sync
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  getOffsets(launchId: string): Promise<ReminderOffset[]> {
+    return serialize(async () => {
+      const entries = await load();
+      return entries[launchId]?.offsets ?? [];
+    });
+  },
+
+  async requestPermission(): Promise<boolean> {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  },
+
+  // Replace the reminders for a launch; an empty list cancels them
+  setOffsets(launch: Launch, offsets: ReminderOffset[]): Promise<void> {
+    return serialize(async () => {
+      const entries = await load();
+      const existing = entries[launch.id];
+      if (existing) {
+        await cancelNotifications(existing.notificationIds);
+        delete entries[launch.id];
+      }
+
+      if (offsets.length > 0 && canScheduleReminders(launch)) {
+        entries[launch.id] = {
+          offsets,
+          dateUtc: launch.date_utc,
+          notificationIds: await scheduleNotifications(launch, offsets),
+        };
+      }
+
+      await save();
+    });
+  },
+
+  // Reconcile reminders with freshly loaded launches: reschedule when the
+  // date slipped, cancel when a launch is no longer upcoming or lost its time
+  sync(launches: Launch[]): Promise<void> {
+    return serialize(async () => {
+      const entries = await load();
+      let changed = false;
+
+      for (const launch of launches) {
+        const entry = entries[launch.id];
+        if (!entry) continue;
+
+        if (!canScheduleReminders(launch)) {
+          await cancelNotifications(entry.notificationIds);
+          delete entries[launch.id];
+          changed = true;
+        } else if (launch.date_utc !== entry.dateUtc) {
+          console.log('Launch date changed, rescheduling reminders:', launch.name);
+          await cancelNotifications(entry.notificationIds);
+          entries[launch.id] = {
+            ...entry,
+            dateUtc: launch.date_utc,
+            notificationIds: await scheduleNotifications(launch, entry.offsets),
+          };
+          changed = true;
+        }
+      }
+
+      if (changed) {
+        await save();
+      }
+    });
+  },
+};
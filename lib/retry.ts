@@ -0,0 +1,59 @@
+import { ApiError, isRetryable, toApiError } from './errors';
+
+export type RetryConfig = {
+  retries: number;       // Extra attempts after the first one fails
+  baseDelay: number;     // Milliseconds, doubled on every attempt
+  maxDelay: number;      // Upper bound for a single backoff
+  maxRetryAfter: number; // Give up rather than wait longer than this for a rate limit
+};
+
+const config: RetryConfig = {
+  retries: 2,
+  baseDelay: 500,
+  maxDelay: 8000,
+  maxRetryAfter: 30 * 1000,
+};
+
+export function configureRetry(options: Partial<RetryConfig>) {
+  Object.assign(config, options);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Full jitter: a random wait up to the exponential cap spreads retries out
+const getBackoff = (attempt: number) => {
+  const cap = Math.min(config.maxDelay, config.baseDelay * 2 ** attempt);
+  return Math.random() * cap;
+};
+
+const getDelay = (error: ApiError, attempt: number): number | null => {
+  if (error.info.kind === 'rate-limited' && error.info.retryAfterMs !== null) {
+    return error.info.retryAfterMs <= config.maxRetryAfter ? error.info.retryAfterMs : null;
+  }
+  return getBackoff(attempt);
+};
+
+// Run a request, retrying transient failures; always rejects with an ApiError
+export async function withRetry<T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (err) {
+      const error = toApiError(err);
+      if (attempt >= config.retries || !isRetryable(error) || signal?.aborted) {
+        throw error;
+      }
+
+      const delay = getDelay(error, attempt);
+      if (delay === null) {
+        throw error;
+      }
+
+      console.log(`Retrying after ${error.kind} error in ${Math.round(delay)}ms (attempt ${attempt + 1}/${config.retries})`);
+      await sleep(delay);
+      if (signal?.aborted) {
+        throw new ApiError({ kind: 'aborted' });
+      }
+    }
+  }
+}
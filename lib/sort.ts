@@ -0,0 +1,58 @@
+import { Launch, LaunchSort } from './types';
+
+export const DEFAULT_SORT: LaunchSort = 'newest';
+
+export const SORT_OPTIONS: { value: LaunchSort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'name', label: 'Name A–Z' },
+  { value: 'launchpad', label: 'Launchpad' },
+];
+
+// Pads are stored as ObjectIds, so launchpad order needs their names and is
+// applied on the client; the query endpoint can't sort by it
+export function sortsOnClient(sort: LaunchSort): boolean {
+  return sort === 'launchpad';
+}
+
+// Sort spec for /v5/launches/query; date breaks ties so paging stays stable
+export function buildLaunchSort(sort: LaunchSort): Record<string, 1 | -1> {
+  switch (sort) {
+    case 'oldest':
+      return { date_utc: 1 };
+    case 'name':
+      return { name: 1, date_utc: -1 };
+    case 'launchpad':
+    case 'newest':
+    default:
+      return { date_utc: -1 };
+  }
+}
+
+// Client-side equivalent of buildLaunchSort, plus launchpad order by pad name.
+// Launches on a pad missing from `launchpadNames` go last
+export function compareLaunches(sort: LaunchSort, launchpadNames: Record<string, string> = {}) {
+  const spec = buildLaunchSort(sort);
+  const fields = Object.keys(spec) as (keyof Launch)[];
+
+  return (a: Launch, b: Launch) => {
+    if (sort === 'launchpad') {
+      const left = launchpadNames[a.launchpad];
+      const right = launchpadNames[b.launchpad];
+      if (left !== right) {
+        if (left === undefined) return 1;
+        if (right === undefined) return -1;
+        return left.localeCompare(right);
+      }
+    }
+
+    for (const field of fields) {
+      const left = String(a[field] ?? '');
+      const right = String(b[field] ?? '');
+      if (left !== right) {
+        return (left < right ? -1 : 1) * spec[field];
+      }
+    }
+    return 0;
+  };
+}
@@ -0,0 +1,175 @@
+import { Launch } from './types';
+
+export type YearStats = {
+  year: number;
+  total: number;
+  successes: number;
+  failures: number;
+  upcoming: number;
+  unknown: number;              // Past launches with no recorded outcome
+  successRate: number | null;   // 0-1 over launches with an outcome, null when there are none
+};
+
+export type CountStats = {
+  id: string;                   // v4 launchpad or rocket id
+  total: number;
+  successes: number;
+};
+
+export type BoosterFlightStats = {
+  flight: number;               // 1 for a new booster, 2 for its first reflight, ...
+  count: number;                // Booster flights at this point in a booster's life
+};
+
+export type OutcomeCounts = {
+  total: number;
+  successes: number;
+  failures: number;
+  upcoming: number;
+  unknown: number;
+  successRate: number | null;
+};
+
+export type LaunchStats = {
+  total: number;
+  successes: number;
+  failures: number;
+  upcoming: number;
+  unknown: number;
+  successRate: number | null;
+  byYear: YearStats[];          // Oldest first, including years without launches in between
+  byLaunchpad: CountStats[];    // Busiest first
+  byRocket: CountStats[];       // Busiest first
+  boosterFlights: BoosterFlightStats[];
+  reusedLaunches: number;       // Launches that flew at least one previously flown booster
+  mostFlownBooster: { core: string; flights: number } | null;
+};
+
+export type LaunchStatus = 'upcoming' | 'success' | 'failure' | 'unknown';
+
+export const STATUS_LABELS: Record<LaunchStatus, string> = {
+  upcoming: 'Upcoming',
+  success: 'Successful',
+  failure: 'Failed',
+  unknown: 'Unknown',
+};
+
+// Shared by stats, export, comparison and the launch screens so a launch is classified the same everywhere
+export function getLaunchStatus(launch: Launch): LaunchStatus {
+  if (launch.upcoming) return 'upcoming';
+  if (launch.success === true) return 'success';
+  if (launch.success === false) return 'failure';
+  return 'unknown';
+}
+
+type Outcome = 'successes' | 'failures' | 'upcoming' | 'unknown';
+
+const OUTCOME_KEYS: Record<LaunchStatus, Outcome> = {
+  upcoming: 'upcoming',
+  success: 'successes',
+  failure: 'failures',
+  unknown: 'unknown',
+};
+
+const getOutcome = (launch: Launch): Outcome => OUTCOME_KEYS[getLaunchStatus(launch)];
+
+const getSuccessRate = (successes: number, failures: number) => {
+  const decided = successes + failures;
+  return decided > 0 ? successes / decided : null;
+};
+
+const emptyYear = (year: number): YearStats => ({
+  year,
+  total: 0,
+  successes: 0,
+  failures: 0,
+  upcoming: 0,
+  unknown: 0,
+  successRate: null,
+});
+
+const countBy = (launches: Launch[], getId: (launch: Launch) => string): CountStats[] => {
+  const counts = new Map<string, CountStats>();
+  launches.forEach(launch => {
+    const id = getId(launch);
+    const entry = counts.get(id) ?? { id, total: 0, successes: 0 };
+    entry.total += 1;
+    if (getOutcome(launch) === 'successes') entry.successes += 1;
+    counts.set(id, entry);
+  });
+  return Array.from(counts.values()).sort((a, b) => b.total - a.total);
+};
+
+// Outcome tally for any slice of launches, e.g. one month of the timeline
+export function countOutcomes(launches: Launch[]): OutcomeCounts {
+  const totals: Record<Outcome, number> = { successes: 0, failures: 0, upcoming: 0, unknown: 0 };
+  launches.forEach(launch => {
+    totals[getOutcome(launch)] += 1;
+  });
+
+  return {
+    total: launches.length,
+    ...totals,
+    successRate: getSuccessRate(totals.successes, totals.failures),
+  };
+}
+
+// Aggregate the launch catalog for the stats dashboard
+export function computeLaunchStats(launches: Launch[]): LaunchStats {
+  const totals: Record<Outcome, number> = { successes: 0, failures: 0, upcoming: 0, unknown: 0 };
+  const years = new Map<number, YearStats>();
+  const flights = new Map<number, number>();
+  const coreFlights = new Map<string, number>();
+  let reusedLaunches = 0;
+
+  launches.forEach(launch => {
+    const outcome = getOutcome(launch);
+    totals[outcome] += 1;
+
+    const year = new Date(launch.date_utc).getUTCFullYear();
+    const yearStats = years.get(year) ?? emptyYear(year);
+    yearStats.total += 1;
+    yearStats[outcome] += 1;
+    years.set(year, yearStats);
+
+    // Planned boosters for upcoming launches haven't flown yet
+    if (launch.upcoming) return;
+
+    if (launch.cores.some(core => core.reused === true)) {
+      reusedLaunches += 1;
+    }
+    launch.cores.forEach(core => {
+      if (core.flight === null) return;
+      flights.set(core.flight, (flights.get(core.flight) ?? 0) + 1);
+      if (core.core) {
+        coreFlights.set(core.core, Math.max(coreFlights.get(core.core) ?? 0, core.flight));
+      }
+    });
+  });
+
+  // Fill gaps so the per-year charts read as a timeline
+  const knownYears = Array.from(years.keys());
+  const byYear: YearStats[] = [];
+  if (knownYears.length > 0) {
+    for (let year = Math.min(...knownYears); year <= Math.max(...knownYears); year++) {
+      const yearStats = years.get(year) ?? emptyYear(year);
+      byYear.push({ ...yearStats, successRate: getSuccessRate(yearStats.successes, yearStats.failures) });
+    }
+  }
+
+  const mostFlown = Array.from(coreFlights.entries()).sort((a, b) => b[1] - a[1])[0];
+
+  return {
+    total: launches.length,
+    ...totals,
+    successRate: getSuccessRate(totals.successes, totals.failures),
+    byYear,
+    byLaunchpad: countBy(launches, launch => launch.launchpad),
+    byRocket: countBy(launches, launch => launch.rocket),
+    boosterFlights: Array.from(flights.entries())
+      .map(([flight, count]) => ({ flight, count }))
+      .sort((a, b) => a.flight - b.flight),
+    reusedLaunches,
+    mostFlownBooster: mostFlown ? { core: mostFlown[0], flights: mostFlown[1] } : null,
+  };
+}
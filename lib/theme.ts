@@ -0,0 +1,176 @@
+import type { MapStyleElement } from 'react-native-maps';
+import { preferences } from './preferences';
+
+const THEME_MODE_PREFERENCE_KEY = 'themeMode';
+
+export type ThemeMode = 'system' | 'light' | 'dark';
+export type ColorScheme = 'light' | 'dark';
+
+export type ThemeColors = {
+  background: string;         // Screen background behind cards and lists
+  surface: string;            // Cards, rows, sheets
+  surfaceMuted: string;       // Inputs, chips and tracks sitting on a surface
+  border: string;
+  text: string;
+  textSecondary: string;
+  textMuted: string;          // Placeholders, captions, inactive icons
+  primary: string;            // Links, buttons, selection
+  onPrimary: string;          // Text on primary and status colors
+  success: string;
+  failure: string;
+  upcoming: string;
+  unknown: string;
+  favorite: string;
+  selected: string;           // Background of a selected row
+  highlight: string;          // Background of a row that stands out, e.g. compare differences
+  highlightText: string;
+  warningBackground: string;  // Offline banner
+  warningBorder: string;
+  warningText: string;
+  chrome: string;             // Headers and tab bar; black in both schemes
+  chromeText: string;
+  chromeMuted: string;
+  chromeBorder: string;
+  overlay: string;            // Scrim behind sheets and modals
+  shadow: string;
+};
+
+export type Theme = {
+  scheme: ColorScheme;
+  colors: ThemeColors;
+  mapStyle: MapStyleElement[];  // Google Maps styling; Apple Maps follows the scheme natively
+};
+
+const lightColors: ThemeColors = {
+  background: '#f5f5f5',
+  surface: '#fff',
+  surfaceMuted: '#f0f0f0',
+  border: '#E0E0E0',
+  text: '#333',
+  textSecondary: '#666',
+  textMuted: '#999',
+  primary: '#007AFF',
+  onPrimary: '#fff',
+  success: '#4CAF50',
+  failure: '#F44336',
+  upcoming: '#FFA500',
+  unknown: '#9E9E9E',
+  favorite: '#FFC107',
+  selected: '#E8F1FF',
+  highlight: '#FFF8E1',
+  highlightText: '#8A5A00',
+  warningBackground: '#FFF3CD',
+  warningBorder: '#FFE08A',
+  warningText: '#856404',
+  chrome: '#000',
+  chromeText: '#fff',
+  chromeMuted: '#999',
+  chromeBorder: '#333',
+  overlay: 'rgba(0, 0, 0, 0.5)',
+  shadow: '#000',
+};
+
+const darkColors: ThemeColors = {
+  background: '#121212',
+  surface: '#1E1E1E',
+  surfaceMuted: '#2A2A2A',
+  border: '#333',
+  text: '#EDEDED',
+  textSecondary: '#AAA',
+  textMuted: '#777',
+  primary: '#0A84FF',
+  onPrimary: '#fff',
+  success: '#66BB6A',
+  failure: '#EF5350',
+  upcoming: '#FFB74D',
+  unknown: '#9E9E9E',
+  favorite: '#FFCA28',
+  selected: '#10263F',
+  highlight: '#3A3212',
+  highlightText: '#FFD54F',
+  warningBackground: '#3A2F0B',
+  warningBorder: '#5C4A12',
+  warningText: '#FFD97A',
+  chrome: '#000',
+  chromeText: '#fff',
+  chromeMuted: '#999',
+  chromeBorder: '#333',
+  overlay: 'rgba(0, 0, 0, 0.7)',
+  shadow: '#000',
+};
+
+// Night palette for Google Maps, matching darkColors
+const darkMapStyle: MapStyleElement[] = [
+  { elementType: 'geometry', stylers: [{ color: '#1d1d1d' }] },
+  { elementType: 'labels.text.fill', stylers: [{ color: '#8a8a8a' }] },
+  { elementType: 'labels.text.stroke', stylers: [{ color: '#1d1d1d' }] },
+  { featureType: 'administrative', elementType: 'geometry', stylers: [{ color: '#3a3a3a' }] },
+  { featureType: 'administrative.country', elementType: 'labels.text.fill', stylers: [{ color: '#aaaaaa' }] },
+  { featureType: 'poi', stylers: [{ visibility: 'off' }] },
+  { featureType: 'road', elementType: 'geometry', stylers: [{ color: '#2c2c2c' }] },
+  { featureType: 'road', elementType: 'labels', stylers: [{ visibility: 'off' }] },
+  { featureType: 'transit', stylers: [{ visibility: 'off' }] },
+  { featureType: 'water', elementType: 'geometry', stylers: [{ color: '#0e1626' }] },
+  { featureType: 'water', elementType: 'labels.text.fill', stylers: [{ color: '#3d4b66' }] },
+];
+
+export const themes: Record<ColorScheme, Theme> = {
+  light: { scheme: 'light', colors: lightColors, mapStyle: [] },
+  dark: { scheme: 'dark', colors: darkColors, mapStyle: darkMapStyle },
+};
+
+export const THEME_MODE_OPTIONS: { value: ThemeMode; label: string }[] = [
+  { value: 'system', label: 'System' },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+];
+
+// The scheme to render; the OS may not report one (e.g. web without a preference)
+export function resolveColorScheme(mode: ThemeMode, systemScheme: string | null | undefined): ColorScheme {
+  if (mode !== 'system') return mode;
+  return systemScheme === 'dark' ? 'dark' : 'light';
+}
+
+type Listener = () => void;
+
+let mode: ThemeMode = 'system';
+let loadPromise: Promise<void> | null = null;
+let loaded = false;
+let changedBeforeLoad = false;
+const listeners = new Set<Listener>();
+
+// App-wide theme mode, persisted across launches
+export const themeStore = {
+  getSnapshot(): ThemeMode {
+    return mode;
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  load(): Promise<void> {
+    if (!loadPromise) {
+      loadPromise = preferences.get<ThemeMode>(THEME_MODE_PREFERENCE_KEY, mode).then(saved => {
+        // A choice made while storage was still loading wins
+        if (!changedBeforeLoad) {
+          mode = saved;
+        }
+        loaded = true;
+        listeners.forEach(listener => listener());
+      });
+    }
+    return loadPromise;
+  },
+
+  set(next: ThemeMode) {
+    if (!loaded) changedBeforeLoad = true;
+    if (next === mode) return;
+    mode = next;
+    listeners.forEach(listener => listener());
+    preferences.set(THEME_MODE_PREFERENCE_KEY, next);
+  },
+};
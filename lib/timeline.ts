@@ -0,0 +1,117 @@
+import { countOutcomes, OutcomeCounts } from './stats';
+import { Launch, LaunchSort } from './types';
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+export type TimelineSection = {
+  key: string;                      // 'YYYY-MM', UTC like the stats screen
+  year: number;
+  month: number;                    // 0-11
+  title: string;                    // 'March 2020'
+  data: Launch[];
+  stats: OutcomeCounts;
+  yearStats: OutcomeCounts | null;  // Only on the first section of each year, which shows the year banner
+};
+
+// SectionList coordinates; itemIndex is the launch's index within section.data
+export type TimelineLocation = {
+  sectionIndex: number;
+  itemIndex: number;
+};
+
+export type TimelineLayoutSizes = {
+  row: number;
+  header: number;
+  yearHeader: number;  // Added on top of header for sections that open a year
+};
+
+// The timeline only makes sense in date order; keep the list's direction when it has one
+export function getTimelineSort(sort: LaunchSort): LaunchSort {
+  return sort === 'oldest' ? 'oldest' : 'newest';
+}
+
+// Group date-sorted launches into month sections, keeping their order
+export function buildTimelineSections(launches: Launch[]): TimelineSection[] {
+  const months = new Map<string, Launch[]>();
+  const years = new Map<number, Launch[]>();
+
+  launches.forEach(launch => {
+    const date = new Date(launch.date_utc);
+    const year = date.getUTCFullYear();
+    const key = `${year}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+
+    months.set(key, [...(months.get(key) ?? []), launch]);
+    years.set(year, [...(years.get(year) ?? []), launch]);
+  });
+
+  const seenYears = new Set<number>();
+
+  return Array.from(months.entries()).map(([key, data]) => {
+    const year = Number(key.slice(0, 4));
+    const month = Number(key.slice(5)) - 1;
+    const opensYear = !seenYears.has(year);
+    seenYears.add(year);
+
+    return {
+      key,
+      year,
+      month,
+      title: `${MONTHS[month]} ${year}`,
+      data,
+      stats: countOutcomes(data),
+      yearStats: opensYear ? countOutcomes(years.get(year) ?? []) : null,
+    };
+  });
+}
+
+// Years in list order, each pointing at the section that opens it
+export function getTimelineYears(sections: TimelineSection[]): { year: number; sectionIndex: number }[] {
+  const years: { year: number; sectionIndex: number }[] = [];
+  sections.forEach((section, sectionIndex) => {
+    if (section.yearStats) years.push({ year: section.year, sectionIndex });
+  });
+  return years;
+}
+
+// The soonest upcoming launch, i.e. where the past ends, whichever way the list runs
+export function findNextUpcoming(sections: TimelineSection[]): TimelineLocation | null {
+  let next: TimelineLocation | null = null;
+  let nextDate = '';
+
+  sections.forEach((section, sectionIndex) => {
+    section.data.forEach((launch, itemIndex) => {
+      if (launch.upcoming && (!next || launch.date_utc < nextDate)) {
+        next = { sectionIndex, itemIndex };
+        nextDate = launch.date_utc;
+      }
+    });
+  });
+
+  return next;
+}
+
+// getItemLayout for a SectionList of fixed-height rows. SectionList flattens each
+// section into header, items, footer, so indexes here count those too.
+export function createTimelineItemLayout(sections: TimelineSection[], sizes: TimelineLayoutSizes) {
+  const frames: { length: number; offset: number }[] = [];
+  let offset = 0;
+
+  const push = (length: number) => {
+    frames.push({ length, offset });
+    offset += length;
+  };
+
+  sections.forEach(section => {
+    push(sizes.header + (section.yearStats ? sizes.yearHeader : 0));
+    section.data.forEach(() => push(sizes.row));
+    push(0);
+  });
+
+  return (_data: unknown, index: number) => ({
+    ...(frames[index] ?? { length: 0, offset }),
+    index,
+  });
+}
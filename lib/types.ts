@@ -1,23 +1,190 @@
+export type DatePrecision = 'half' | 'quarter' | 'year' | 'month' | 'day' | 'hour';
+
+export type LaunchFailure = {
+  time: number;                  // Seconds after liftoff
+  altitude: number | null;       // Kilometers
+  reason: string;
+};
+
+export type LaunchCore = {
+  core: string | null;           // v4 core id
+  flight: number | null;         // Flight number of this booster
+  gridfins: boolean | null;
+  legs: boolean | null;
+  reused: boolean | null;
+  landing_attempt: boolean | null;
+  landing_success: boolean | null;
+  landing_type: string | null;   // e.g. ASDS, RTLS, Ocean
+  landpad: string | null;        // v4 landpad id
+};
+
+export type LaunchCrewMember = {
+  crew: string;                  // v4 crew id
+  role: string;
+};
+
+export type LaunchFairings = {
+  reused: boolean | null;
+  recovery_attempt: boolean | null;
+  recovered: boolean | null;
+  ships: string[];
+};
+
 export type Launch = {
   id: string;
   name: string;                  // Mission name
+  flight_number: number;
   date_utc: string;
+  date_unix: number;
+  date_local: string;
+  date_precision: DatePrecision;
+  static_fire_date_utc: string | null;
+  static_fire_date_unix: number | null;
+  net: boolean;                  // "No earlier than" date
+  window: number | null;         // Launch window in seconds
+  tbd: boolean;
+  details: string | null;        // Mission description
   links: {
     patch?: { small?: string | null; large?: string | null };
-    flickr?: { original?: string[] };
+    reddit?: {
+      campaign?: string | null;
+      launch?: string | null;
+      media?: string | null;
+      recovery?: string | null;
+    };
+    flickr?: { small?: string[]; original?: string[] };
+    presskit?: string | null;
+    webcast?: string | null;
+    youtube_id?: string | null;
+    article?: string | null;
+    wikipedia?: string | null;
   };
   success?: boolean | null;
+  failures: LaunchFailure[];
   upcoming?: boolean;
+  rocket: string;                // v4 rocket id
   launchpad: string;             // v4 launchpad id
+  crew: LaunchCrewMember[];
+  ships: string[];               // v4 ship ids
+  capsules: string[];            // v4 capsule ids
+  payloads: string[];            // v4 payload ids
+  cores: LaunchCore[];
+  fairings: LaunchFairings | null;
+  auto_update: boolean;
+  launch_library_id: string | null;
 };
 
+export type LaunchpadStatus = 'active' | 'inactive' | 'unknown' | 'retired' | 'lost' | 'under construction';
+
 export type Launchpad = {
   id: string;
   name: string;
+  full_name: string;
+  status: LaunchpadStatus;
   locality: string;
   region: string;
+  timezone: string;
   latitude: number;
   longitude: number;
+  launch_attempts: number;
+  launch_successes: number;
+  details: string | null;
+  images: { large: string[] };
+  rockets: string[];             // v4 rocket ids
+  launches: string[];            // v5 launch ids
+};
+
+type Measurement = {
+  meters: number | null;
+  feet: number | null;
+};
+
+type Thrust = {
+  kN: number;
+  lbf: number;
+};
+
+export type Rocket = {
+  id: string;
+  name: string;
+  type: string;
+  active: boolean;
+  stages: number;
+  boosters: number;
+  cost_per_launch: number;       // USD
+  success_rate_pct: number;
+  first_flight: string;          // YYYY-MM-DD
+  country: string;
+  company: string;
+  height: Measurement;
+  diameter: Measurement;
+  mass: { kg: number; lb: number };
+  payload_weights: { id: string; name: string; kg: number; lb: number }[];
+  first_stage: {
+    reusable: boolean;
+    engines: number;
+    fuel_amount_tons: number;
+    burn_time_sec: number | null;
+    thrust_sea_level: Thrust;
+    thrust_vacuum: Thrust;
+  };
+  second_stage: {
+    reusable: boolean;
+    engines: number;
+    fuel_amount_tons: number;
+    burn_time_sec: number | null;
+    thrust: Thrust;
+  };
+  engines: {
+    number: number;
+    type: string;
+    version: string;
+    layout: string | null;
+    isp: { sea_level: number; vacuum: number };
+    engine_loss_max: number | null;
+    propellant_1: string;
+    propellant_2: string;
+    thrust_sea_level: Thrust;
+    thrust_vacuum: Thrust;
+    thrust_to_weight: number | null;
+  };
+  landing_legs: { number: number; material: string | null };
+  flickr_images: string[];
+  wikipedia: string;
+  description: string;
+};
+
+export type Payload = {
+  id: string;
+  name: string;
+  type: string;                  // e.g. Satellite, Dragon 1.1, Crew Dragon
+  reused: boolean;
+  launch: string | null;         // v5 launch id
+  customers: string[];
+  nationalities: string[];
+  manufacturers: string[];
+  mass_kg: number | null;
+  mass_lbs: number | null;
+  orbit: string | null;          // e.g. LEO, ISS, GTO
+};
+
+export type LaunchOutcome = 'success' | 'failure' | 'unknown';
+
+export type LaunchFilters = {
+  outcomes: LaunchOutcome[];     // Empty means any outcome
+  upcoming: boolean | null;      // null shows both upcoming and past launches
+  dateFrom: string | null;       // Inclusive, YYYY-MM-DD
+  dateTo: string | null;         // Inclusive, YYYY-MM-DD
+  launchpads: string[];          // v4 launchpad ids, empty means any pad
+  rockets: string[];             // v4 rocket ids, empty means any rocket
+};
+
+export type LaunchSort = 'newest' | 'oldest' | 'name' | 'launchpad';
+
+export type CacheMeta = {
+  timestamp: number;             // When the cached copy was fetched
+  stale: boolean;                // Older than the configured TTL
+  offline: boolean;              // Served because the network request failed
 };
 
 export type LaunchResponse = {
@@ -26,6 +193,22 @@ export type LaunchResponse = {
   page: number;
   totalDocs: number;
   totalPages: number;
+  cache?: CacheMeta | null;      // Set when the page was served from the offline cache
+  queryKey?: string;             // Search, filters and sort this page belongs to
+};
+
+// Raw paginated response from POST /v5/launches/query
+export type LaunchQueryResponse = {
+  docs: Launch[];
+  totalDocs: number;
+  limit: number;
+  page: number;
+  totalPages: number;
+  pagingCounter: number;
+  hasPrevPage: boolean;
+  hasNextPage: boolean;
+  prevPage: number | null;
+  nextPage: number | null;
 };
 
 export type LaunchpadResponse = Launchpad; 
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { preferences } from './preferences';
+
+const DISTANCE_UNIT_PREFERENCE_KEY = 'distanceUnit';
+
+export type DistanceUnit = 'km' | 'mi';
+
+type Listener = () => void;
+
+let unit: DistanceUnit = 'km';
+let loadPromise: Promise<void> | null = null;
+let loaded = false;
+let changedBeforeLoad = false;
+const listeners = new Set<Listener>();
+
+// App-wide distance unit, read by formatDistance when no unit is passed
+export const unitsStore = {
+  getSnapshot(): DistanceUnit {
+    return unit;
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  load(): Promise<void> {
+    if (!loadPromise) {
+      loadPromise = preferences.get<DistanceUnit>(DISTANCE_UNIT_PREFERENCE_KEY, unit).then(saved => {
+        // A choice made while storage was still loading wins
+        if (!changedBeforeLoad) {
+          unit = saved;
+        }
+        loaded = true;
+        listeners.forEach(listener => listener());
+      });
+    }
+    return loadPromise;
+  },
+
+  set(next: DistanceUnit) {
+    if (!loaded) changedBeforeLoad = true;
+    if (next === unit) return;
+    unit = next;
+    listeners.forEach(listener => listener());
+    preferences.set(DISTANCE_UNIT_PREFERENCE_KEY, next);
+  },
+};